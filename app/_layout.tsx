@@ -3,6 +3,8 @@ import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import 'react-native-reanimated';
 import { AuthProvider } from '../contexts/AuthContext';
+import { SettingsProvider } from '../contexts/SettingsContext';
+import { LiveStatusProvider } from '../contexts/LiveStatusContext';
 import { LogBox } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 
@@ -24,14 +26,19 @@ export default function RootLayout() {
   return (
     <SafeAreaProvider>
       <AuthProvider>
-        <ThemeProvider value={TwitchTheme}>
-          <Stack screenOptions={{ headerStyle: { backgroundColor: '#18181b' }, headerTintColor: '#efeff1' }}>
-            <Stack.Screen name="index" options={{ headerShown: false }} />
-            <Stack.Screen name="streamers" options={{ title: 'Following', headerBackVisible: false }} />
-            <Stack.Screen name="stream/[channel]" options={{ title: 'Stream', headerShown: false }} />
-          </Stack>
-          <StatusBar style="light" />
-        </ThemeProvider>
+        <SettingsProvider>
+          <LiveStatusProvider>
+            <ThemeProvider value={TwitchTheme}>
+              <Stack screenOptions={{ headerStyle: { backgroundColor: '#18181b' }, headerTintColor: '#efeff1' }}>
+                <Stack.Screen name="index" options={{ headerShown: false }} />
+                <Stack.Screen name="auth" options={{ headerShown: false }} />
+                <Stack.Screen name="streamers" options={{ title: 'Following', headerBackVisible: false }} />
+                <Stack.Screen name="stream/[channel]" options={{ title: 'Stream', headerShown: false }} />
+              </Stack>
+              <StatusBar style="light" />
+            </ThemeProvider>
+          </LiveStatusProvider>
+        </SettingsProvider>
       </AuthProvider>
     </SafeAreaProvider>
   );
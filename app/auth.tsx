@@ -0,0 +1,32 @@
+import React, { useEffect } from 'react';
+import { ActivityIndicator, StyleSheet, View } from 'react-native';
+import { useRouter } from 'expo-router';
+import * as WebBrowser from 'expo-web-browser';
+
+// Twitch redirects here after login. On web this page is the login popup: hand the result
+// back to the window that opened it, which closes the popup.
+WebBrowser.maybeCompleteAuthSession();
+
+// The login screen picks up the result from its auth request, so just go back there
+export default function AuthRedirectScreen() {
+  const router = useRouter();
+
+  useEffect(() => {
+    router.replace('/');
+  }, [router]);
+
+  return (
+    <View style={styles.container}>
+      <ActivityIndicator size="large" color="#9147ff" />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0e0e10',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
@@ -1,97 +1,121 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
   TouchableOpacity,
   StyleSheet,
   ActivityIndicator,
-  Platform,
-  TextInput,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import * as WebBrowser from 'expo-web-browser';
-import { useAuth } from '../contexts/AuthContext';
-import { getOAuthUrl, getClientId } from '../services/twitchApi';
+import * as AuthSession from 'expo-auth-session';
+import { useAuth, describeAuthNotice } from '../contexts/AuthContext';
+import { getClientId } from '../services/twitchApi';
+import {
+  AUTH_SCOPES,
+  twitchDiscovery,
+  getRedirectUri,
+  exchangeAuthCode,
+  startDeviceAuth,
+  pollDeviceAuth,
+} from '../services/twitchAuth';
+import { DeviceCodeResponse } from '../types/twitch';
 
 // Required for proper auth session handling on mobile
 WebBrowser.maybeCompleteAuthSession();
 
 export default function LoginScreen() {
   const router = useRouter();
-  const { accessToken, isLoading, login } = useAuth();
+  // Sent here from a signed-in screen to grant scopes the current token lacks, or to add another account
+  const { reauth, add } = useLocalSearchParams<{ reauth?: string; add?: string }>();
+  const { accessToken, isLoading, login, notice } = useAuth();
+  const reauthTokenRef = useRef(reauth || add ? accessToken : null);
   const [loggingIn, setLoggingIn] = useState(false);
-  const [showTokenInput, setShowTokenInput] = useState(false);
-  const [manualToken, setManualToken] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [deviceCode, setDeviceCode] = useState<DeviceCodeResponse | null>(null);
+  const deviceCancelledRef = useRef(false);
+
+  // Authorization code + PKCE; the verifier never leaves the device
+  const [request, response, promptAsync] = AuthSession.useAuthRequest(
+    {
+      clientId: getClientId(),
+      scopes: AUTH_SCOPES,
+      redirectUri: getRedirectUri(),
+      responseType: AuthSession.ResponseType.Code,
+      usePKCE: true,
+      // Make Twitch show the consent screen again even though the app is already authorized;
+      // it also lets the user switch to a different Twitch account
+      extraParams: reauth || add ? { force_verify: 'true' } : undefined,
+    },
+    twitchDiscovery
+  );
 
   useEffect(() => {
-    if (accessToken && !isLoading) {
+    if (accessToken && !isLoading && accessToken !== reauthTokenRef.current) {
       router.replace('/streamers');
     }
   }, [accessToken, isLoading]);
 
-  // Check for OAuth callback token in URL hash or localStorage
   useEffect(() => {
-    if (Platform.OS === 'web') {
-      // Check URL hash first (direct redirect from Twitch)
-      const hash = window.location.hash;
-      if (hash && hash.includes('access_token=')) {
-        const params = new URLSearchParams(hash.substring(1));
-        const token = params.get('access_token');
-        if (token) {
-          // Clear the hash from URL
-          window.history.replaceState(null, '', window.location.pathname);
-          setLoggingIn(true);
-          login(token);
-          return;
-        }
-      }
-
-      // Check localStorage fallback
-      const pendingToken = localStorage.getItem('twitch_pending_token');
-      if (pendingToken) {
-        localStorage.removeItem('twitch_pending_token');
-        setLoggingIn(true);
-        login(pendingToken);
-      }
+    if (response?.type === 'error') {
+      setError(response.error?.message || 'Login was not completed');
+      return;
     }
+    if (response?.type !== 'success' || !request?.codeVerifier) return;
+
+    setLoggingIn(true);
+    exchangeAuthCode(response.params.code, request.codeVerifier)
+      .then(login)
+      .catch(e => {
+        console.error('Login error:', e);
+        setError('Login failed, please try again');
+        setLoggingIn(false);
+      });
+  }, [response]);
+
+  // Stop polling if the screen goes away mid device login
+  useEffect(() => {
+    return () => {
+      deviceCancelledRef.current = true;
+    };
   }, []);
 
   const handleLogin = async () => {
+    setError(null);
     try {
-      if (Platform.OS === 'web') {
-        const authUrl = getOAuthUrl('web');
-        // Open Twitch OAuth in new tab
-        window.open(authUrl, '_blank');
-        setShowTokenInput(true);
-      } else {
-        // On native, open Twitch auth and show manual token input
-        // Twitch doesn't support custom URL schemes, so we use manual token flow
-        const redirectUri = 'http://localhost';
-
-        const authUrl = `https://id.twitch.tv/oauth2/authorize?` +
-          `client_id=${getClientId()}&` +
-          `redirect_uri=${encodeURIComponent(redirectUri)}&` +
-          `response_type=token&` +
-          `scope=${encodeURIComponent('user:read:follows chat:read chat:edit')}`;
-
-        // Open auth in browser - user will need to copy token after redirect
-        await WebBrowser.openBrowserAsync(authUrl);
-        setShowTokenInput(true);
-      }
-    } catch (error) {
-      console.error('Login error:', error);
-      setShowTokenInput(true);
+      await promptAsync();
+    } catch (e) {
+      console.error('Login error:', e);
+      setError('Could not open the Twitch login page');
     }
   };
 
-  const handleManualToken = async () => {
-    if (manualToken.trim()) {
+  // For TVs and desktops: show a code to enter on another device
+  const handleDeviceLogin = async () => {
+    setError(null);
+    deviceCancelledRef.current = false;
+    try {
+      const device = await startDeviceAuth();
+      setDeviceCode(device);
+      const tokens = await pollDeviceAuth(device, () => deviceCancelledRef.current);
       setLoggingIn(true);
-      await login(manualToken.trim());
+      await login(tokens);
+    } catch (e) {
+      if (deviceCancelledRef.current) return;
+      console.error('Device login error:', e);
+      setError(e instanceof Error ? e.message : 'Device login failed');
+      setLoggingIn(false);
+    } finally {
+      setDeviceCode(null);
     }
   };
 
+  const cancelDeviceLogin = () => {
+    deviceCancelledRef.current = true;
+    setDeviceCode(null);
+  };
+
   if (isLoading || loggingIn) {
     return (
       <SafeAreaView style={styles.container}>
@@ -116,34 +140,57 @@ export default function LoginScreen() {
         <FeatureItem icon="🗣️" text="Say streamer name to switch" />
       </View>
 
-      {!showTokenInput ? (
-        <TouchableOpacity style={styles.loginButton} onPress={handleLogin}>
-          <Text style={styles.loginButtonText}>Login with Twitch</Text>
-        </TouchableOpacity>
+      {notice?.type === 'missing-scopes' && (
+        <Text style={styles.tokenInstructions}>
+          Log in again to allow: {notice.scopes.join(', ')}
+        </Text>
+      )}
+      {notice?.type === 'ended' && (
+        <Text style={styles.tokenInstructions}>{describeAuthNotice(notice)}</Text>
+      )}
+      {add && (
+        <Text style={styles.tokenInstructions}>
+          Log in with the account to add. Use &quot;Not you?&quot; on the Twitch page to pick a different one.
+        </Text>
+      )}
+
+      {!deviceCode ? (
+        <>
+          <TouchableOpacity
+            style={[styles.loginButton, !request && styles.loginButtonDisabled]}
+            onPress={handleLogin}
+            disabled={!request}
+          >
+            <Text style={styles.loginButtonText}>Login with Twitch</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleDeviceLogin}>
+            <Text style={styles.backLink}>Log in on another device instead</Text>
+          </TouchableOpacity>
+          {accessToken && (
+            <TouchableOpacity onPress={() => router.replace('/streamers')}>
+              <Text style={styles.backLink}>← Back</Text>
+            </TouchableOpacity>
+          )}
+        </>
       ) : (
         <View style={styles.tokenInputContainer}>
           <Text style={styles.tokenInstructions}>
-            1. Authorize in Twitch browser{'\n'}
-            2. After "This site can't be reached" page{'\n'}
-            3. Copy token from URL (after "access_token=")
+            Go to {deviceCode.verification_uri} on any device and enter this code:
           </Text>
-          <TextInput
-            style={styles.tokenInput}
-            placeholder="Paste access token here"
-            placeholderTextColor="#666"
-            value={manualToken}
-            onChangeText={setManualToken}
-            autoCapitalize="none"
-            autoCorrect={false}
-          />
-          <TouchableOpacity style={styles.loginButton} onPress={handleManualToken}>
-            <Text style={styles.loginButtonText}>Submit Token</Text>
+          <Text style={styles.deviceCode}>{deviceCode.user_code}</Text>
+          <TouchableOpacity
+            style={styles.loginButton}
+            onPress={() => WebBrowser.openBrowserAsync(deviceCode.verification_uri)}
+          >
+            <Text style={styles.loginButtonText}>Open Twitch</Text>
           </TouchableOpacity>
-          <TouchableOpacity onPress={() => setShowTokenInput(false)}>
-            <Text style={styles.backLink}>← Try login again</Text>
+          <TouchableOpacity onPress={cancelDeviceLogin}>
+            <Text style={styles.backLink}>← Cancel</Text>
           </TouchableOpacity>
         </View>
       )}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
     </SafeAreaView>
   );
 }
@@ -201,6 +248,9 @@ const styles = StyleSheet.create({
     paddingVertical: 16,
     borderRadius: 8,
   },
+  loginButtonDisabled: {
+    opacity: 0.5,
+  },
   loginButtonText: {
     color: '#fff',
     fontSize: 18,
@@ -218,21 +268,22 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     lineHeight: 20,
   },
-  tokenInput: {
-    width: '100%',
-    height: 48,
-    backgroundColor: '#18181b',
-    borderRadius: 8,
-    paddingHorizontal: 16,
+  deviceCode: {
     color: '#efeff1',
-    fontSize: 14,
-    marginBottom: 16,
-    borderWidth: 1,
-    borderColor: '#3d3d3d',
+    fontSize: 32,
+    fontWeight: 'bold',
+    letterSpacing: 4,
+    marginBottom: 24,
   },
   backLink: {
     color: '#9147ff',
     fontSize: 14,
     marginTop: 16,
   },
+  errorText: {
+    color: '#eb0400',
+    fontSize: 14,
+    marginTop: 16,
+    textAlign: 'center',
+  },
 });
@@ -13,24 +13,49 @@ import {
   ScrollView,
   PixelRatio,
   Switch,
+  Image,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
+import { chatManager, applySendStatus } from '../../services/chatManager';
+import { loadEmoteIndex, parseMessageFragments, EmoteIndex } from '../../services/emotes';
+import { loadBadgeIndex, resolveBadges, BadgeIndex } from '../../services/badges';
+import { ttsQueue, TtsQueueSnapshot, TtsPriority, TtsDropPolicy } from '../../services/ttsQueue';
+import { speechEngine, TtsVoice } from '../../services/speechEngine';
+import { getFilterReason, getAccountCreatedAt, isMention, TtsFilterRules, TtsRoleFilter } from '../../services/ttsFilters';
+import { assignVoice } from '../../services/voiceAssignment';
+import { normalizeForSpeech, TtsNormalizationConfig } from '../../services/ttsNormalizer';
+import { StreamSettings } from '../../services/settingsStore';
+import { recordWatch } from '../../services/watchHistory';
+import { getCachedFollowedStreamers, getFollowedStreamers, getLiveStreams } from '../../services/twitchApi';
+import { matchStreamer, describeVoiceChoice } from '../../services/voiceMatch';
+import {
+  parseVoiceCommand,
+  dispatchVoiceCommand,
+  stripWakePhrase,
+  VoiceCommandHandler,
+  VoiceCommandMode,
+} from '../../services/voiceCommands';
+import { speechRecognizer, RecognitionSession, RECOGNITION_LANGUAGES } from '../../services/speechRecognizer';
+import { useSettings, useChannelSettings } from '../../contexts/SettingsContext';
 
 // Only import WebView for native platforms
 let WebView: any = null;
 if (Platform.OS !== 'web') {
   WebView = require('react-native-webview').WebView;
 }
-import * as Speech from 'expo-speech';
-import { useAuth } from '../../contexts/AuthContext';
-import { TwitchIRC } from '../../services/twitchIRC';
-import { ChatMessage } from '../../types/twitch';
+import { useAuth, describeAuthNotice } from '../../contexts/AuthContext';
+import { ChatMessage, ChatEvent, IrcConnectionState, RoomState, StreamerDisplay } from '../../types/twitch';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 const PIXEL_RATIO = PixelRatio.get();
 
+const SPEECH_RATES = [0.8, 1.0, 1.2, 1.5, 2.0];
+// How long after a lone wake phrase the next utterance still counts as a command
+const WAKE_WINDOW_MS = 6000;
+// Pause between wake phrase sessions, so a recognizer that keeps failing doesn't spin
+const WAKE_RESTART_DELAY_MS = 1000;
+
 // Responsive scaling for different screen sizes
 // S25 Ultra has ~3.0 pixel ratio, base iPhone is ~2.0
 const baseScale = SCREEN_WIDTH / 375;
@@ -43,41 +68,46 @@ const normalize = (size: number) => {
 export default function StreamScreen() {
   const { channel } = useLocalSearchParams<{ channel: string }>();
   const router = useRouter();
-  const { accessToken, user } = useAuth();
+  const { accessToken, user, notice, sendAccount } = useAuth();
+  const sendToken = sendAccount?.accessToken;
+  const sendLogin = sendAccount?.user.login;
+  const { createChannelProfile, removeChannelProfile } = useSettings();
+  // This channel's profile, if it has one, is already applied on top of the global settings
+  const { settings: appSettings, profile, updateSettings } = useChannelSettings(channel);
+  const settings = appSettings.stream;
+  const { shortcuts, normalization, filters: ttsFilters, voice: voiceSettings, voiceCommands: voiceCommandSettings } = appSettings;
+  const showChat = appSettings.layout.showChat;
+  const speechRate = voiceSettings.rate;
 
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputMessage, setInputMessage] = useState('');
   const [isConnected, setIsConnected] = useState(false);
+  const [connectionState, setConnectionState] = useState<IrcConnectionState>('idle');
   const [isListening, setIsListening] = useState(false);
+  // What push-to-talk has heard so far
+  const [interimTranscript, setInterimTranscript] = useState('');
   const [isReadingChat, setIsReadingChat] = useState(true); // Start ON by default
-  const [showChat, setShowChat] = useState(true);
   const [showVoiceSettings, setShowVoiceSettings] = useState(false);
-  const [availableVoices, setAvailableVoices] = useState<SpeechSynthesisVoice[]>([]);
-  const [selectedVoiceIndex, setSelectedVoiceIndex] = useState(0);
-  const [speechRate, setSpeechRate] = useState(1.2);
+  const [availableVoices, setAvailableVoices] = useState<TtsVoice[]>([]);
+  // Used until a voice is picked, or when the saved one isn't installed here
+  const [defaultVoiceId, setDefaultVoiceId] = useState<string | null>(null);
+  const [ttsSnapshot, setTtsSnapshot] = useState<TtsQueueSnapshot>(ttsQueue.getSnapshot());
   const [twitchChatHidden, setTwitchChatHidden] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
 
-  // Settings - all enabled by default
-  const [settings, setSettings] = useState({
-    autoPlay: true,
-    autoUnmute: true,
-    playerOnlyMode: true,  // Start in player-only (no Twitch chat)
-    ttsEnabled: true,
-  });
-
-  // Keyboard shortcuts - customizable
-  const [shortcuts, setShortcuts] = useState({
-    toggleTTS: 't',
-    toggleTwitchChat: 'c',
-    toggleOurChat: 'h',
-    openSettings: 's',
-    voiceInput: 'v',
-    back: 'Escape',
-  });
+  const [pinLogin, setPinLogin] = useState('');
+  // Raw text of the comma-separated filter inputs while they're being edited
+  const [filterDrafts, setFilterDrafts] = useState<Partial<Record<keyof TtsFilterRules, string>>>({});
   const [showShortcutSettings, setShowShortcutSettings] = useState(false);
   const [editingShortcut, setEditingShortcut] = useState<string | null>(null);
   const [toast, setToast] = useState<string | null>(null);
+  const [banner, setBanner] = useState<string | null>(null);
+  const [roomState, setRoomState] = useState<RoomState | null>(null);
+  const [roomId, setRoomId] = useState<string | null>(null);
+  const [emoteIndex, setEmoteIndex] = useState<EmoteIndex | null>(null);
+  const [badgeIndex, setBadgeIndex] = useState<BadgeIndex | null>(null);
+  // Channels offered by the last "Did you mean A or B?"
+  const voiceChoiceRef = useRef<StreamerDisplay[] | null>(null);
 
   // Show toast notification
   const showToast = (message: string) => {
@@ -85,36 +115,20 @@ export default function StreamScreen() {
     setTimeout(() => setToast(null), 1500);
   };
 
-  // Load settings from storage
-  useEffect(() => {
-    const loadSettings = async () => {
-      try {
-        const saved = await AsyncStorage.getItem('streamSettings');
-        if (saved) {
-          setSettings(JSON.parse(saved));
-        }
-        const savedShortcuts = await AsyncStorage.getItem('keyboardShortcuts');
-        if (savedShortcuts) {
-          setShortcuts(JSON.parse(savedShortcuts));
-        }
-      } catch (e) {
-        console.log('Failed to load settings');
-      }
-    };
-    loadSettings();
-  }, []);
+  const selectedVoice = availableVoices.find(v => v.id === voiceSettings.voiceId)
+    ?? availableVoices.find(v => v.id === defaultVoiceId);
 
-  // Save shortcuts when changed
-  const updateShortcut = async (key: keyof typeof shortcuts, value: string) => {
-    const newShortcuts = { ...shortcuts, [key]: value.toLowerCase() };
-    setShortcuts(newShortcuts);
-    try {
-      await AsyncStorage.setItem('keyboardShortcuts', JSON.stringify(newShortcuts));
-    } catch (e) {
-      console.log('Failed to save shortcuts');
-    }
+  const updateShortcut = (key: keyof typeof shortcuts, value: string) => {
+    updateSettings('shortcuts', { [key]: value.toLowerCase() });
   };
 
+  const setShowChat = (visible: boolean) => {
+    updateSettings('layout', { showChat: visible });
+  };
+
+  // The shortcut listener outlives renders, so actions that read settings go through this
+  const shortcutActionsRef = useRef({ voiceInput: () => {}, setShowChat: (_visible: boolean) => {} });
+
   // Keyboard event listener (web only)
   useEffect(() => {
     if (Platform.OS !== 'web') return;
@@ -144,16 +158,17 @@ export default function StreamScreen() {
         });
       } else if (key === shortcuts.toggleOurChat) {
         e.preventDefault();
-        setShowChat(prev => {
-          showToast(!prev ? 'Chat ON' : 'Chat OFF');
-          return !prev;
-        });
+        shortcutActionsRef.current.setShowChat(!showChat);
+        showToast(!showChat ? 'Chat ON' : 'Chat OFF');
       } else if (key === shortcuts.openSettings) {
         e.preventDefault();
         setShowSettings(true);
       } else if (key === shortcuts.voiceInput) {
         e.preventDefault();
-        handleVoiceInput();
+        shortcutActionsRef.current.voiceInput();
+      } else if (key === shortcuts.skipTTS) {
+        e.preventDefault();
+        ttsQueue.skipCurrent();
       } else if (key === shortcuts.back || e.key === 'Escape') {
         e.preventDefault();
         if (showSettings) setShowSettings(false);
@@ -165,22 +180,55 @@ export default function StreamScreen() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [shortcuts, editingShortcut, showSettings, showVoiceSettings, showShortcutSettings]);
-
-  // Save settings when changed
-  const updateSetting = async (key: keyof typeof settings, value: boolean) => {
-    const newSettings = { ...settings, [key]: value };
-    setSettings(newSettings);
-    try {
-      await AsyncStorage.setItem('streamSettings', JSON.stringify(newSettings));
-    } catch (e) {
-      console.log('Failed to save settings');
-    }
+  }, [shortcuts, showChat, editingShortcut, showSettings, showVoiceSettings, showShortcutSettings, router]);
+
+  const updateSetting = (key: keyof StreamSettings, value: boolean) => {
+    updateSettings('stream', { [key]: value });
+  };
+
+  const updateNormalization = (changes: Partial<TtsNormalizationConfig>) => {
+    updateSettings('normalization', changes);
   };
 
-  const lastReadIndexRef = useRef(0);
+  const updateTtsFilters = (changes: Partial<TtsFilterRules>) => {
+    updateSettings('filters', changes);
+  };
+
+  type ListFilterKey = 'ignoredUsers' | 'ignoredPrefixes' | 'includeKeywords' | 'excludeKeywords';
+
+  const updateFilterList = (key: ListFilterKey, text: string) => {
+    setFilterDrafts(prev => ({ ...prev, [key]: text }));
+    const items = text.split(',').map(item => item.trim()).filter(Boolean);
+    updateTtsFilters({ [key]: key === 'ignoredUsers' ? items.map(item => item.replace(/^@/, '').toLowerCase()) : items });
+  };
+
+  const toggleAllowedRole = (role: TtsRoleFilter) => {
+    const roles = ttsFilters.allowedRoles.includes(role)
+      ? ttsFilters.allowedRoles.filter(r => r !== role)
+      : [...ttsFilters.allowedRoles, role];
+    updateTtsFilters({ allowedRoles: roles });
+  };
+
+  const pinSelectedVoice = () => {
+    const login = pinLogin.trim().replace(/^@/, '').toLowerCase();
+    if (!login || !selectedVoice) return;
+    updateSettings('voice', { pins: { ...voiceSettings.pins, [login]: selectedVoice.id } });
+    setPinLogin('');
+  };
+
+  const unpinVoice = (login: string) => {
+    const { [login]: _removed, ...rest } = voiceSettings.pins;
+    updateSettings('voice', { pins: rest });
+  };
+
+  // Ids of messages already considered for TTS, so trimming the list can't cause re-reads
+  const seenMessageIdsRef = useRef(new Set<string>());
+  // Messages waiting on an account age lookup hold back the ones after them, so chat is read in order
+  const speakChainRef = useRef<Promise<void>>(Promise.resolve());
+  // Lookups resolve later, by which time reading may have been turned off
+  const readingChatRef = useRef(false);
+  readingChatRef.current = isReadingChat && settings.ttsEnabled;
 
-  const ircRef = useRef<TwitchIRC | null>(null);
   const flatListRef = useRef<FlatList>(null);
   const webViewRef = useRef<any>(null);
 
@@ -189,10 +237,15 @@ export default function StreamScreen() {
 
   // Sync settings on load
   useEffect(() => {
-    setPlayerOnly(settings.playerOnlyMode);
-    setTwitchChatHidden(settings.playerOnlyMode);
+    setPlayerOnly(appSettings.layout.playerOnlyMode);
+    setTwitchChatHidden(appSettings.layout.playerOnlyMode);
     setIsReadingChat(settings.ttsEnabled);
-  }, [settings.playerOnlyMode, settings.ttsEnabled]);
+  }, [appSettings.layout.playerOnlyMode, settings.ttsEnabled]);
+
+  // Feeds the "Recently watched" sort on the streamer list
+  useEffect(() => {
+    if (channel) recordWatch(channel).catch(error => console.error('Failed to record watch:', error));
+  }, [channel]);
 
   const toggleTwitchChat = () => {
     setPlayerOnly(!playerOnly);
@@ -211,23 +264,138 @@ export default function StreamScreen() {
   useEffect(() => {
     if (!accessToken || !user || !channel) return;
 
-    const irc = new TwitchIRC(accessToken, user.login);
-    ircRef.current = irc;
-
-    irc.connect(
-      channel,
-      (message) => {
+    // The shared connection may already be in this channel from an earlier visit
+    chatManager.configure(
+      accessToken,
+      user.login,
+      sendToken && sendLogin ? { token: sendToken, username: sendLogin } : null
+    );
+    const history = chatManager.getRecentMessages(channel);
+    setMessages(history);
+    history.forEach(msg => seenMessageIdsRef.current.add(msg.id));
+    setIsConnected(chatManager.isJoined(channel));
+    setConnectionState(chatManager.getConnectionState());
+    setRoomState(chatManager.getRoomState(channel) ?? null);
+    setRoomId(chatManager.getRoomId(channel) ?? null);
+
+    const unsubscribe = chatManager.subscribe(channel, {
+      onMessage: (message) => {
         setMessages((prev) => [...prev.slice(-200), message]);
       },
-      (connected) => {
-        setIsConnected(connected);
-      }
-    );
+      onJoinChange: (joined) => {
+        setIsConnected(joined);
+      },
+      onStateChange: (state) => {
+        setConnectionState(state);
+      },
+      onEvent: (event) => chatEventHandlerRef.current(event),
+    });
 
     return () => {
-      irc.disconnect();
+      unsubscribe();
+      if (bannerTimeoutRef.current) clearTimeout(bannerTimeoutRef.current);
     };
-  }, [accessToken, user, channel]);
+  }, [accessToken, user, sendToken, sendLogin, channel]);
+
+  // Third-party emote sets are keyed by the channel's user id from ROOMSTATE
+  useEffect(() => {
+    if (!roomId) return;
+    let cancelled = false;
+    loadEmoteIndex(roomId).then(index => {
+      if (!cancelled) setEmoteIndex(index);
+    });
+    if (accessToken) {
+      loadBadgeIndex(accessToken, roomId).then(index => {
+        if (!cancelled) setBadgeIndex(index);
+      });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, accessToken]);
+
+  // Drop messages from the list and from anything still waiting to be spoken
+  const removeMessages = (predicate: (msg: ChatMessage) => boolean) => {
+    setMessages(prev => {
+      ttsQueue.remove(prev.filter(predicate).map(msg => msg.id));
+      return prev.filter(msg => !predicate(msg));
+    });
+  };
+
+  const handleChatEvent = (event: ChatEvent) => {
+    switch (event.type) {
+      case 'clearmsg':
+        removeMessages(msg => msg.messageId === event.targetMessageId);
+        break;
+      case 'clearchat':
+        if (event.targetLogin || event.targetUserId) {
+          removeMessages(msg =>
+            (!!event.targetUserId && msg.userId === event.targetUserId) ||
+            (!!event.targetLogin && msg.login === event.targetLogin)
+          );
+        } else {
+          removeMessages(() => true);
+          showToast('Chat cleared');
+        }
+        break;
+      case 'usernotice':
+        if (event.message) {
+          const noticeMessage = event.message;
+          setMessages(prev => [...prev.slice(-200), noticeMessage]);
+        }
+        if (event.systemMessage) {
+          showBanner(event.systemMessage);
+        }
+        break;
+      case 'notice':
+        showToast(event.text);
+        break;
+      case 'roomstate':
+        setRoomState(event.state);
+        if (event.roomId) setRoomId(event.roomId);
+        break;
+      case 'sendstatus':
+        setMessages(prev => prev.map(msg => msg.id === event.localId ? applySendStatus(msg, event) : msg));
+        break;
+      case 'reconnect':
+        showToast('Reconnecting...');
+        break;
+    }
+  };
+
+  // Always dispatch to the latest handler so it sees current voice settings
+  const chatEventHandlerRef = useRef(handleChatEvent);
+  chatEventHandlerRef.current = handleChatEvent;
+
+  // Sub/raid banner, shown for a few seconds
+  const bannerTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const showBanner = (text: string) => {
+    setBanner(text);
+    if (bannerTimeoutRef.current) clearTimeout(bannerTimeoutRef.current);
+    bannerTimeoutRef.current = setTimeout(() => setBanner(null), 6000);
+  };
+
+  // Warn about the session here too, since a stream can stay open for hours
+  useEffect(() => {
+    if (!notice) return;
+    if (notice.type === 'ended' && !notice.login) {
+      router.replace('/');
+      return;
+    }
+    showBanner(describeAuthNotice(notice));
+  }, [notice]);
+
+  const formatRoomState = (state: RoomState) => {
+    const modes: string[] = [];
+    if (state.slow > 0) modes.push(`Slow ${state.slow}s`);
+    if (state.followersOnly >= 0) {
+      modes.push(state.followersOnly > 0 ? `Followers ${state.followersOnly}m` : 'Followers-only');
+    }
+    if (state.subsOnly) modes.push('Subs-only');
+    if (state.emoteOnly) modes.push('Emote-only');
+    if (state.r9k) modes.push('Unique chat');
+    return modes.join(' · ');
+  };
 
   useEffect(() => {
     // Auto-scroll to bottom when new messages arrive
@@ -240,126 +408,303 @@ export default function StreamScreen() {
 
   // Load available TTS voices
   useEffect(() => {
-    if (Platform.OS === 'web' && 'speechSynthesis' in window) {
-      const loadVoices = () => {
-        const voices = window.speechSynthesis.getVoices();
-        if (voices.length > 0) {
-          setAvailableVoices(voices);
-          // Try to find a good default voice (Microsoft or Google natural)
-          const preferredIndex = voices.findIndex(v =>
-            v.name.includes('Microsoft') && v.name.includes('Natural') ||
-            v.name.includes('Google') && v.lang.startsWith('en')
-          );
-          if (preferredIndex >= 0) setSelectedVoiceIndex(preferredIndex);
-        }
-      };
-      loadVoices();
-      window.speechSynthesis.onvoiceschanged = loadVoices;
-    }
+    speechEngine.getVoices().then(voices => {
+      if (voices.length === 0) return;
+      setAvailableVoices(voices);
+      // Try to find a good default voice (Microsoft or Google natural)
+      const preferredIndex = voices.findIndex(v =>
+        v.name.includes('Microsoft') && v.name.includes('Natural') ||
+        v.name.includes('Google') && v.language.startsWith('en')
+      );
+      setDefaultVoiceId(voices[Math.max(preferredIndex, 0)].id);
+    });
+  }, []);
+
+  useEffect(() => {
+    ttsQueue.setDefaults({
+      rate: speechRate,
+      voiceId: selectedVoice?.id,
+    });
+  }, [speechRate, selectedVoice]);
+
+  useEffect(() => {
+    ttsQueue.configure({ maxBacklog: voiceSettings.maxBacklog, dropPolicy: voiceSettings.dropPolicy });
+  }, [voiceSettings.maxBacklog, voiceSettings.dropPolicy]);
+
+  // Live view of the TTS queue; stop reading when leaving the stream
+  useEffect(() => {
+    const unsubscribe = ttsQueue.subscribe(setTtsSnapshot);
+    return () => {
+      unsubscribe();
+      ttsQueue.skipAll();
+    };
   }, []);
 
   const handleSendMessage = () => {
-    if (!inputMessage.trim() || !ircRef.current) return;
+    if (!inputMessage.trim() || !channel) return;
 
-    ircRef.current.sendMessage(inputMessage.trim());
+    chatManager.sendMessage(channel, inputMessage.trim());
     setInputMessage('');
   };
 
-  // Remove consecutive duplicate words (e.g., "lol lol lol" -> "lol")
-  const cleanRepeatedWords = (text: string): string => {
-    const words = text.split(/\s+/);
-    const cleaned: string[] = [];
-    for (const word of words) {
-      const lastWord = cleaned[cleaned.length - 1];
-      if (!lastWord || lastWord.toLowerCase() !== word.toLowerCase()) {
-        cleaned.push(word);
-      }
-    }
-    return cleaned.join(' ');
+  const getTtsPriority = (msg: ChatMessage): TtsPriority => {
+    if (isMention(msg.message, user?.login)) return 'mention';
+    if (msg.roles?.broadcaster || msg.roles?.moderator) return 'moderator';
+    if (msg.roles?.subscriber || msg.roles?.vip) return 'subscriber';
+    return 'normal';
   };
 
-  // TTS: Read chat messages aloud
-  const speakMessage = (text: string) => {
-    const cleanedText = cleanRepeatedWords(text);
-
-    if (Platform.OS === 'web' && 'speechSynthesis' in window) {
-      const utterance = new SpeechSynthesisUtterance(cleanedText);
-      utterance.rate = speechRate;
-      utterance.pitch = 1;
-      if (availableVoices[selectedVoiceIndex]) {
-        utterance.voice = availableVoices[selectedVoiceIndex];
-      }
-      window.speechSynthesis.speak(utterance);
-    } else if (Platform.OS !== 'web') {
-      // Mobile TTS using expo-speech
-      Speech.speak(cleanedText, {
-        rate: speechRate,
-        pitch: 1,
-        language: 'en-US',
-      });
-    }
+  // Stable voice, pitch and rate per chatter, seeded by user id so renames keep their voice
+  const getChatterVoice = (msg: ChatMessage) => {
+    if (!voiceSettings.perUserVoices) return undefined;
+    const login = msg.login || msg.username.toLowerCase();
+    return assignVoice(msg.userId || login, login, availableVoices, voiceSettings.pins, {
+      language: selectedVoice?.language.split(/[-_]/)[0],
+      baseRate: speechRate,
+    });
   };
 
   const toggleReadChat = () => {
     if (isReadingChat) {
       // Stop reading
-      if (Platform.OS === 'web' && 'speechSynthesis' in window) {
-        window.speechSynthesis.cancel();
-      } else if (Platform.OS !== 'web') {
-        Speech.stop();
-      }
+      ttsQueue.skipAll();
       setIsReadingChat(false);
     } else {
-      // Start reading - set index to current messages length so we only read NEW messages
-      lastReadIndexRef.current = messages.length;
+      // Messages that arrived while TTS was off are already marked as seen
       setIsReadingChat(true);
     }
   };
 
-  // Read new messages when isReadingChat is enabled and TTS is allowed
+  // Queue new messages when isReadingChat is enabled and TTS is allowed
   useEffect(() => {
-    if (isReadingChat && settings.ttsEnabled && messages.length > lastReadIndexRef.current) {
-      const newMessages = messages.slice(lastReadIndexRef.current);
-      newMessages.forEach((msg) => {
-        speakMessage(`${msg.username} says: ${msg.message}`);
-      });
-      lastReadIndexRef.current = messages.length;
+    const seen = seenMessageIdsRef.current;
+    const newMessages = messages.filter(msg => !seen.has(msg.id));
+    newMessages.forEach(msg => seen.add(msg.id));
+    // Forget ids that have scrolled out of the list
+    if (seen.size > 1000) {
+      seenMessageIdsRef.current = new Set(messages.map(msg => msg.id));
     }
-  }, [messages, isReadingChat, settings.ttsEnabled]);
 
-  const handleVoiceInput = async () => {
-    setIsListening(true);
+    if (!isReadingChat || !settings.ttsEnabled) return;
+
+    const speak = (msg: ChatMessage) => {
+      const text = normalizeForSpeech(parseMessageFragments(msg, emoteIndex), normalization);
+      // Emote-only messages have nothing left to say when emotes are skipped
+      if (text) {
+        ttsQueue.enqueue({
+          id: msg.id,
+          text: `${msg.username} says: ${text}`,
+          priority: getTtsPriority(msg),
+          options: getChatterVoice(msg),
+        });
+      }
+    };
 
-    if (Platform.OS === 'web' && 'webkitSpeechRecognition' in window) {
-      const SpeechRecognition = (window as any).webkitSpeechRecognition;
-      const recognition = new SpeechRecognition();
-      recognition.continuous = false;
-      recognition.interimResults = false;
+    const context = { selfLogin: user?.login };
+    newMessages.forEach((msg) => {
+      if (ttsFilters.minAccountAgeDays > 0 && msg.userId && accessToken) {
+        const lookup = getAccountCreatedAt(accessToken, msg.userId);
+        speakChainRef.current = speakChainRef.current.then(async () => {
+          const accountCreatedAt = await lookup;
+          if (readingChatRef.current && !getFilterReason(msg, ttsFilters, { ...context, accountCreatedAt })) speak(msg);
+        });
+      } else if (!getFilterReason(msg, ttsFilters, context)) {
+        speakChainRef.current = speakChainRef.current.then(() => {
+          if (readingChatRef.current) speak(msg);
+        });
+      }
+    });
+  }, [messages, isReadingChat, settings.ttsEnabled, normalization, ttsFilters]);
+
+  // Says and shows the result of a voice command
+  const confirmVoiceCommand = (text: string) => {
+    if (!text) return;
+    showToast(text);
+    if (voiceCommandSettings.confirmations) ttsQueue.speakNow(text, { rate: speechRate });
+  };
 
-      recognition.onresult = (event: any) => {
-        const transcript = event.results[0][0].transcript;
-        setIsListening(false);
+  const switchToStreamer = async (spoken: string, candidates?: StreamerDisplay[]) => {
+    let streamers = candidates;
+    if (!streamers) {
+      if (!accessToken || !user) return 'Sign in to switch channels';
+      streamers = await getCachedFollowedStreamers(user.id) ?? await getFollowedStreamers(accessToken, user.id);
+    }
+    const result = matchStreamer(spoken, streamers, appSettings.streamerList.aliases);
+    if (result.type === 'ambiguous') {
+      voiceChoiceRef.current = result.options;
+      return describeVoiceChoice(result.options);
+    }
+    if (result.type === 'none') return `I couldn't find ${spoken}`;
+    router.replace(`/stream/${result.streamer.login}`);
+    return `Switching to ${result.streamer.display_name}`;
+  };
 
-        if (transcript && ircRef.current) {
-          ircRef.current.sendMessage(transcript);
-        }
-      };
+  const nextSpeechRate = (direction: 1 | -1) => {
+    const steps = direction > 0 ? SPEECH_RATES : [...SPEECH_RATES].reverse();
+    return steps.find(rate => (direction > 0 ? rate > speechRate : rate < speechRate)) ?? speechRate;
+  };
 
-      recognition.onerror = () => {
-        setIsListening(false);
-      };
+  const voiceCommandHandlers: Partial<Record<string, VoiceCommandHandler>> = {
+    // The only way voice input reaches chat
+    send: ({ slots }) => {
+      if (!channel || !slots.text) return;
+      chatManager.sendMessage(channel, slots.text);
+      return 'Sent';
+    },
+    switch: ({ slots }) => switchToStreamer(slots.streamer),
+    'mute-tts': () => {
+      ttsQueue.skipAll();
+      setIsReadingChat(false);
+      return 'TTS off';
+    },
+    'unmute-tts': () => {
+      setIsReadingChat(true);
+      return 'TTS on';
+    },
+    faster: () => {
+      const rate = nextSpeechRate(1);
+      if (rate === speechRate) return 'Already reading as fast as I can';
+      updateSettings('voice', { rate });
+      return `Reading at ${rate}x`;
+    },
+    slower: () => {
+      const rate = nextSpeechRate(-1);
+      if (rate === speechRate) return 'Already reading as slow as I can';
+      updateSettings('voice', { rate });
+      return `Reading at ${rate}x`;
+    },
+    skip: () => {
+      ttsQueue.skipCurrent();
+    },
+    'skip-all': () => {
+      ttsQueue.skipAll();
+      return 'Queue cleared';
+    },
+    'show-chat': () => {
+      setShowChat(true);
+      return 'Chat ON';
+    },
+    'hide-chat': () => {
+      setShowChat(false);
+      return 'Chat OFF';
+    },
+    back: () => {
+      router.push('/streamers');
+    },
+    title: async () => {
+      if (!accessToken || !roomId) return 'I don\'t know the title yet';
+      const [stream] = await getLiveStreams(accessToken, [roomId]);
+      if (!stream) return `${channel} is offline`;
+      return stream.game_name
+        ? `${stream.user_name} is playing ${stream.game_name}: ${stream.title}`
+        : `${stream.user_name}: ${stream.title}`;
+    },
+    cancel: () => {
+      voiceChoiceRef.current = null;
+      return 'Cancelled';
+    },
+  };
 
-      recognition.onend = () => {
-        setIsListening(false);
-      };
+  const handleVoiceCommand = async (transcript: string) => {
+    const command = parseVoiceCommand(transcript);
+    // Answering "Did you mean A or B?" with just a name
+    const choices = voiceChoiceRef.current;
+    voiceChoiceRef.current = null;
+    if (choices && (!command || command.intent === 'switch')) {
+      confirmVoiceCommand(await switchToStreamer(command?.slots.streamer ?? transcript, choices));
+      return;
+    }
+    confirmVoiceCommand(await dispatchVoiceCommand(command, voiceCommandHandlers));
+  };
+  // The wake phrase listener outlives renders, so it goes through this to reach the latest state
+  const voiceCommandRef = useRef(handleVoiceCommand);
+  voiceCommandRef.current = handleVoiceCommand;
 
-      recognition.start();
-    } else {
-      setIsListening(false);
+  // Push-to-talk: one utterance, parsed as a command
+  const handleVoiceInput = async () => {
+    if (!speechRecognizer.isAvailable()) {
       alert('Voice recognition not available on this platform');
+      return;
     }
+    setIsListening(true);
+    await speechRecognizer.start(
+      { lang: voiceCommandSettings.language, interimResults: true },
+      {
+        onResult: ({ alternatives: [transcript], isFinal }) => {
+          if (!isFinal) {
+            setInterimTranscript(transcript);
+            return;
+          }
+          // A wake phrase said out of habit is fine here too
+          if (transcript) handleVoiceCommand(stripWakePhrase(transcript, voiceCommandSettings.wakePhrase) || transcript);
+        },
+        onError: (error) => {
+          if (error.code !== 'aborted' && error.code !== 'no-speech') showToast(error.message);
+        },
+        onEnd: () => {
+          setIsListening(false);
+          setInterimTranscript('');
+        },
+      }
+    );
   };
 
+  shortcutActionsRef.current = { voiceInput: handleVoiceInput, setShowChat };
+
+  // Wake phrase: listen continuously and act on whatever follows the phrase. Paused while
+  // push-to-talk has the microphone.
+  useEffect(() => {
+    if (voiceCommandSettings.mode !== 'wake-phrase' || isListening) return;
+    if (!speechRecognizer.isAvailable()) return;
+
+    let stopped = false;
+    let session: RecognitionSession | null = null;
+    let restartTimer: ReturnType<typeof setTimeout> | null = null;
+    // Set when the phrase was said on its own, so the next utterance is the command
+    let armedUntil = 0;
+
+    const listen = async () => {
+      session = await speechRecognizer.start(
+        { lang: voiceCommandSettings.language, continuous: true },
+        {
+          onResult: ({ alternatives: [transcript], isFinal }) => {
+            if (!isFinal) return;
+            const command = stripWakePhrase(transcript, voiceCommandSettings.wakePhrase);
+            if (command) {
+              armedUntil = 0;
+              voiceCommandRef.current(command);
+            } else if (command === '') {
+              armedUntil = Date.now() + WAKE_WINDOW_MS;
+              showToast('Listening...');
+            } else if (Date.now() < armedUntil) {
+              armedUntil = 0;
+              voiceCommandRef.current(transcript);
+            }
+          },
+          onError: (error) => {
+            // Restarting would only fail again
+            if (['not-allowed', 'unavailable', 'language-not-supported', 'audio-capture'].includes(error.code)) {
+              stopped = true;
+              showToast(error.message);
+            }
+          },
+          // Recognizers end even continuous sessions after a while of silence
+          onEnd: () => {
+            if (!stopped) restartTimer = setTimeout(listen, WAKE_RESTART_DELAY_MS);
+          },
+        }
+      );
+      if (stopped) session.abort();
+    };
+    listen();
+
+    return () => {
+      stopped = true;
+      if (restartTimer) clearTimeout(restartTimer);
+      session?.abort();
+    };
+  }, [voiceCommandSettings.mode, voiceCommandSettings.wakePhrase, voiceCommandSettings.language, isListening]);
+
   const getTwitchEmbedHtml = () => {
     // For mobile WebView, use the mobile Twitch site directly
     return `
@@ -388,12 +733,89 @@ export default function StreamScreen() {
     `;
   };
 
+  const getConnectionStatus = (): { label: string; color: string } => {
+    switch (connectionState) {
+      case 'connecting':
+        return { label: 'Connecting', color: '#f5a623' };
+      case 'authenticating':
+        return { label: 'Logging in', color: '#f5a623' };
+      case 'joined':
+        return isConnected
+          ? { label: 'Live', color: '#00ff7f' }
+          : { label: 'Joining', color: '#f5a623' };
+      case 'backoff':
+        return { label: 'Retrying', color: '#ff4444' };
+      case 'auth-failed':
+        return { label: 'Login failed', color: '#ff4444' };
+      case 'closed-by-user':
+        return { label: 'Closed', color: '#adadb8' };
+      default:
+        return { label: 'Offline', color: '#adadb8' };
+    }
+  };
+  const connectionStatus = getConnectionStatus();
+
+  const retrySend = (item: ChatMessage) => {
+    if (!channel) return;
+    setMessages(prev => prev.filter(msg => msg.id !== item.id));
+    chatManager.sendMessage(channel, item.message);
+  };
+
+  // Left accent for the highest role, so mod and streamer messages stand out
+  const getRoleStyle = (item: ChatMessage) => {
+    if (item.roles?.broadcaster) return styles.messageBroadcaster;
+    if (item.roles?.moderator) return styles.messageModerator;
+    if (item.roles?.vip) return styles.messageVip;
+    return null;
+  };
+
   const renderMessage = ({ item }: { item: ChatMessage }) => (
-    <View style={styles.messageContainer}>
+    <View
+      style={[
+        styles.messageContainer,
+        getRoleStyle(item),
+        item.sendStatus === 'pending' && styles.messagePending,
+      ]}
+    >
+      {resolveBadges(item.badges, badgeIndex).map((badge, index) => (
+        <Image
+          key={index}
+          source={{ uri: badge.url }}
+          style={styles.badge}
+          accessibilityLabel={badge.title}
+        />
+      ))}
       <Text style={[styles.username, { color: item.color || '#9147ff' }]}>
         {item.username}:
       </Text>
-      <Text style={styles.messageText}> {item.message}</Text>
+      <Text style={styles.messageText}>
+        {' '}
+        {parseMessageFragments(item, emoteIndex).map((fragment, index) =>
+          fragment.type === 'emote' ? (
+            <Image
+              key={index}
+              source={{ uri: fragment.emote.url }}
+              style={[
+                styles.emote,
+                fragment.emote.width && fragment.emote.height
+                  ? { width: normalize(24) * (fragment.emote.width / fragment.emote.height) }
+                  : null,
+              ]}
+              accessibilityLabel={fragment.text}
+            />
+          ) : (
+            fragment.text
+          )
+        )}
+      </Text>
+      {item.sendStatus === 'failed' && (
+        <TouchableOpacity style={styles.sendFailed} onPress={() => retrySend(item)}>
+          <Ionicons name="alert-circle" size={14} color="#ff4444" />
+          <Text style={styles.sendFailedText}>
+            {item.sendError || 'Not sent'} · Tap to retry
+          </Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 
@@ -571,12 +993,25 @@ export default function StreamScreen() {
               </TouchableOpacity>
             </>
           )}
-          <View
-            style={[
-              styles.connectionDot,
-              { backgroundColor: isConnected ? '#00ff7f' : '#ff4444' },
-            ]}
-          />
+          <TouchableOpacity
+            style={styles.connectionStatus}
+            onPress={() => {
+              if (connectionState === 'backoff' || connectionState === 'auth-failed') {
+                chatManager.reconnect();
+              }
+            }}
+            disabled={connectionState !== 'backoff' && connectionState !== 'auth-failed'}
+          >
+            <View
+              style={[
+                styles.connectionDot,
+                { backgroundColor: connectionStatus.color },
+              ]}
+            />
+            <Text style={[styles.connectionLabel, { color: connectionStatus.color }]}>
+              {connectionStatus.label}
+            </Text>
+          </TouchableOpacity>
           <TouchableOpacity
             style={styles.toggleButton}
             onPress={() => setShowChat(!showChat)}
@@ -590,6 +1025,13 @@ export default function StreamScreen() {
         </View>
       </View>
 
+      {roomState && formatRoomState(roomState) !== '' && (
+        <View style={styles.roomStateBar}>
+          <Ionicons name="shield-checkmark-outline" size={14} color="#adadb8" />
+          <Text style={styles.roomStateText}>{formatRoomState(roomState)}</Text>
+        </View>
+      )}
+
       {/* Video Player */}
       <View style={[styles.playerContainer, !showChat && styles.playerFullHeight]}>
         {Platform.OS === 'web' ? (
@@ -718,7 +1160,11 @@ export default function StreamScreen() {
             ListEmptyComponent={
               <View style={styles.emptyChat}>
                 <Text style={styles.emptyChatText}>
-                  {isConnected ? 'Waiting for messages...' : 'Connecting to chat...'}
+                  {isConnected
+                    ? 'Waiting for messages...'
+                    : connectionState === 'auth-failed'
+                      ? 'Chat login failed. Tap the status to retry.'
+                      : 'Connecting to chat...'}
                 </Text>
               </View>
             }
@@ -728,7 +1174,7 @@ export default function StreamScreen() {
           <View style={styles.inputContainer}>
             <TextInput
               style={styles.textInput}
-              placeholder="Send a message"
+              placeholder={sendAccount ? `Send a message as ${sendAccount.user.display_name}` : 'Send a message'}
               placeholderTextColor="#adadb8"
               value={inputMessage}
               onChangeText={setInputMessage}
@@ -760,6 +1206,14 @@ export default function StreamScreen() {
         </View>
       )}
 
+      {/* Sub / Raid Banner */}
+      {banner && (
+        <View style={styles.banner}>
+          <Ionicons name="star" size={16} color="#fff" />
+          <Text style={styles.bannerText} numberOfLines={2}>{banner}</Text>
+        </View>
+      )}
+
       {/* Toast Notification */}
       {toast && (
         <View style={styles.toast}>
@@ -777,7 +1231,7 @@ export default function StreamScreen() {
           size={28}
           color="#fff"
         />
-        {isListening && <Text style={styles.listeningText}>Listening...</Text>}
+        {isListening && <Text style={styles.listeningText} numberOfLines={1}>{interimTranscript || 'Listening...'}</Text>}
       </TouchableOpacity>
 
       {/* Voice Settings Modal */}
@@ -795,54 +1249,205 @@ export default function StreamScreen() {
           <View style={styles.voiceSettingsModal} onStartShouldSetResponder={() => true}>
             <Text style={styles.modalTitle}>Voice Settings</Text>
 
-            <Text style={styles.modalLabel}>Select Voice:</Text>
-            <ScrollView style={styles.voiceList}>
-              {availableVoices.map((voice, index) => (
-                <TouchableOpacity
-                  key={index}
-                  style={[
-                    styles.voiceOption,
-                    selectedVoiceIndex === index && styles.voiceOptionSelected,
-                  ]}
-                  onPress={() => {
-                    setSelectedVoiceIndex(index);
-                    // Test the voice
-                    const utterance = new SpeechSynthesisUtterance('Hello, this is a test.');
-                    utterance.voice = voice;
-                    utterance.rate = speechRate;
-                    window.speechSynthesis.cancel();
-                    window.speechSynthesis.speak(utterance);
-                  }}
-                >
-                  <Text style={[
-                    styles.voiceOptionText,
-                    selectedVoiceIndex === index && styles.voiceOptionTextSelected,
-                  ]}>
-                    {voice.name}
-                  </Text>
-                  <Text style={styles.voiceLang}>{voice.lang}</Text>
-                </TouchableOpacity>
-              ))}
-            </ScrollView>
+            {/* The list of options outgrows small screens */}
+            <ScrollView style={styles.modalBody}>
+              <Text style={styles.modalLabel}>Select Voice:</Text>
+              <ScrollView style={styles.voiceList}>
+                {availableVoices.map((voice, index) => (
+                  <TouchableOpacity
+                    key={index}
+                    style={[
+                      styles.voiceOption,
+                      selectedVoice?.id === voice.id && styles.voiceOptionSelected,
+                    ]}
+                    onPress={() => {
+                      updateSettings('voice', { voiceId: voice.id });
+                      // Test the voice
+                      ttsQueue.speakNow('Hello, this is a test.', { voiceId: voice.id, rate: speechRate });
+                    }}
+                  >
+                    <Text style={[
+                      styles.voiceOptionText,
+                      selectedVoice?.id === voice.id && styles.voiceOptionTextSelected,
+                    ]}>
+                      {voice.name}
+                    </Text>
+                    <Text style={styles.voiceLang}>{voice.language}</Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+
+              <Text style={styles.modalLabel}>Speed: {speechRate.toFixed(1)}x</Text>
+              <View style={styles.speedButtons}>
+                {SPEECH_RATES.map((rate) => (
+                  <TouchableOpacity
+                    key={rate}
+                    style={[
+                      styles.speedButton,
+                      speechRate === rate && styles.speedButtonSelected,
+                    ]}
+                    onPress={() => updateSettings('voice', { rate })}
+                  >
+                    <Text style={[
+                      styles.speedButtonText,
+                      speechRate === rate && styles.speedButtonTextSelected,
+                    ]}>{rate}x</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
 
-            <Text style={styles.modalLabel}>Speed: {speechRate.toFixed(1)}x</Text>
-            <View style={styles.speedButtons}>
-              {[0.8, 1.0, 1.2, 1.5, 2.0].map((rate) => (
-                <TouchableOpacity
-                  key={rate}
-                  style={[
-                    styles.speedButton,
-                    speechRate === rate && styles.speedButtonSelected,
-                  ]}
-                  onPress={() => setSpeechRate(rate)}
-                >
-                  <Text style={[
-                    styles.speedButtonText,
-                    speechRate === rate && styles.speedButtonTextSelected,
-                  ]}>{rate}x</Text>
+              <View style={styles.settingRow}>
+                <View style={styles.settingInfo}>
+                  <Text style={styles.settingLabel}>Per-Chatter Voices</Text>
+                  <Text style={styles.settingDesc}>Give each chatter their own voice, pitch and speed</Text>
+                </View>
+                <Switch
+                  value={voiceSettings.perUserVoices}
+                  onValueChange={(v) => updateSettings('voice', { perUserVoices: v })}
+                  trackColor={{ false: '#3d3d3d', true: '#9147ff' }}
+                  thumbColor={voiceSettings.perUserVoices ? '#fff' : '#888'}
+                />
+              </View>
+              {voiceSettings.perUserVoices && (
+                <>
+                  <View style={styles.pinRow}>
+                    <TextInput
+                      style={styles.pinInput}
+                      placeholder="Chatter name"
+                      placeholderTextColor="#adadb8"
+                      value={pinLogin}
+                      onChangeText={setPinLogin}
+                      onSubmitEditing={pinSelectedVoice}
+                      autoCapitalize="none"
+                    />
+                    <TouchableOpacity style={styles.speedButton} onPress={pinSelectedVoice}>
+                      <Text style={styles.speedButtonText}>Pin selected voice</Text>
+                    </TouchableOpacity>
+                  </View>
+                  {Object.entries(voiceSettings.pins).map(([login, voiceId]) => (
+                    <View key={login} style={styles.pinRow}>
+                      <Text style={styles.pinText} numberOfLines={1}>
+                        {login} → {availableVoices.find(v => v.id === voiceId)?.name ?? 'Unavailable voice'}
+                      </Text>
+                      <TouchableOpacity onPress={() => unpinVoice(login)}>
+                        <Ionicons name="close-circle" size={18} color="#adadb8" />
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                </>
+              )}
+
+              <Text style={styles.modalLabel}>
+                Queue: {ttsSnapshot.current ? 'speaking' : 'idle'} · {ttsSnapshot.pending.length} waiting
+              </Text>
+              {ttsSnapshot.current && (
+                <Text style={styles.ttsCurrent} numberOfLines={1}>{ttsSnapshot.current.text}</Text>
+              )}
+              <View style={styles.speedButtons}>
+                <TouchableOpacity style={styles.speedButton} onPress={() => ttsQueue.skipCurrent()}>
+                  <Text style={styles.speedButtonText}>Skip</Text>
                 </TouchableOpacity>
-              ))}
-            </View>
+                <TouchableOpacity style={styles.speedButton} onPress={() => ttsQueue.skipAll()}>
+                  <Text style={styles.speedButtonText}>Skip All</Text>
+                </TouchableOpacity>
+              </View>
+
+              <Text style={styles.modalLabel}>Max backlog: {voiceSettings.maxBacklog}</Text>
+              <View style={styles.speedButtons}>
+                {[5, 10, 25, 50].map((size) => (
+                  <TouchableOpacity
+                    key={size}
+                    style={[
+                      styles.speedButton,
+                      voiceSettings.maxBacklog === size && styles.speedButtonSelected,
+                    ]}
+                    onPress={() => updateSettings('voice', { maxBacklog: size })}
+                  >
+                    <Text style={styles.speedButtonText}>{size}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.modalLabel}>When full, drop:</Text>
+              <View style={styles.speedButtons}>
+                {([
+                  ['oldest', 'Oldest'],
+                  ['lowest-priority', 'Lowest'],
+                  ['summarize', 'Summarize'],
+                ] as [TtsDropPolicy, string][]).map(([policy, label]) => (
+                  <TouchableOpacity
+                    key={policy}
+                    style={[
+                      styles.speedButton,
+                      voiceSettings.dropPolicy === policy && styles.speedButtonSelected,
+                    ]}
+                    onPress={() => updateSettings('voice', { dropPolicy: policy })}
+                  >
+                    <Text style={styles.speedButtonText}>{label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.modalLabel}>Text cleanup:</Text>
+              <View style={styles.speedButtons}>
+                {([
+                  ['urls', 'Links'],
+                  ['copypasta', 'Copypasta'],
+                  ['repeatedCharacters', 'Repeats'],
+                  ['slang', 'Slang'],
+                  ['numbers', 'Numbers'],
+                  ['emotes', 'Emotes'],
+                ] as [keyof TtsNormalizationConfig, string][]).map(([step, label]) => (
+                  <TouchableOpacity
+                    key={step}
+                    style={[
+                      styles.speedButton,
+                      normalization[step] === true && styles.speedButtonSelected,
+                    ]}
+                    onPress={() => updateNormalization({ [step]: !normalization[step] })}
+                  >
+                    <Text style={styles.speedButtonText}>{label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {normalization.emotes && (
+                <View style={styles.speedButtons}>
+                  {([
+                    ['name', 'Say emote names'],
+                    ['skip', 'Skip emotes'],
+                  ] as [TtsNormalizationConfig['emoteMode'], string][]).map(([mode, label]) => (
+                    <TouchableOpacity
+                      key={mode}
+                      style={[
+                        styles.speedButton,
+                        normalization.emoteMode === mode && styles.speedButtonSelected,
+                      ]}
+                      onPress={() => updateNormalization({ emoteMode: mode })}
+                    >
+                      <Text style={styles.speedButtonText}>{label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
+              <Text style={styles.modalLabel}>
+                Max length: {normalization.maxLength > 0 ? `${normalization.maxLength} chars` : 'unlimited'}
+              </Text>
+              <View style={styles.speedButtons}>
+                {[100, 200, 400, 0].map((length) => (
+                  <TouchableOpacity
+                    key={length}
+                    style={[
+                      styles.speedButton,
+                      normalization.maxLength === length && styles.speedButtonSelected,
+                    ]}
+                    onPress={() => updateNormalization({ maxLength: length })}
+                  >
+                    <Text style={styles.speedButtonText}>{length > 0 ? length : 'Off'}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </ScrollView>
 
             <TouchableOpacity
               style={styles.closeButton}
@@ -868,72 +1473,231 @@ export default function StreamScreen() {
         >
           <View style={styles.voiceSettingsModal} onStartShouldSetResponder={() => true}>
             <Text style={styles.modalTitle}>Stream Settings</Text>
-
             <View style={styles.settingRow}>
               <View style={styles.settingInfo}>
-                <Text style={styles.settingLabel}>Auto-Play Video</Text>
-                <Text style={styles.settingDesc}>Start video automatically</Text>
+                <Text style={styles.settingLabel}>Only for {channel}</Text>
+                <Text style={styles.settingDesc}>
+                  {profile
+                    ? 'Changes here are saved to this channel\'s profile'
+                    : 'Changes here apply to every channel'}
+                </Text>
               </View>
               <Switch
-                value={settings.autoPlay}
-                onValueChange={(v) => updateSetting('autoPlay', v)}
+                value={!!profile}
+                onValueChange={(v) => (v ? createChannelProfile(channel) : removeChannelProfile(channel))}
                 trackColor={{ false: '#3d3d3d', true: '#9147ff' }}
-                thumbColor={settings.autoPlay ? '#fff' : '#888'}
+                thumbColor={profile ? '#fff' : '#888'}
               />
             </View>
 
-            <View style={styles.settingRow}>
-              <View style={styles.settingInfo}>
-                <Text style={styles.settingLabel}>Auto-Unmute</Text>
-                <Text style={styles.settingDesc}>Enable audio automatically</Text>
+            <ScrollView style={styles.modalBody}>
+              <View style={styles.settingRow}>
+                <View style={styles.settingInfo}>
+                  <Text style={styles.settingLabel}>Auto-Play Video</Text>
+                  <Text style={styles.settingDesc}>Start video automatically</Text>
+                </View>
+                <Switch
+                  value={settings.autoPlay}
+                  onValueChange={(v) => updateSetting('autoPlay', v)}
+                  trackColor={{ false: '#3d3d3d', true: '#9147ff' }}
+                  thumbColor={settings.autoPlay ? '#fff' : '#888'}
+                />
               </View>
-              <Switch
-                value={settings.autoUnmute}
-                onValueChange={(v) => updateSetting('autoUnmute', v)}
-                trackColor={{ false: '#3d3d3d', true: '#9147ff' }}
-                thumbColor={settings.autoUnmute ? '#fff' : '#888'}
-              />
-            </View>
 
-            <View style={styles.settingRow}>
-              <View style={styles.settingInfo}>
-                <Text style={styles.settingLabel}>Player-Only Mode</Text>
-                <Text style={styles.settingDesc}>Hide Twitch side chat by default</Text>
+              <View style={styles.settingRow}>
+                <View style={styles.settingInfo}>
+                  <Text style={styles.settingLabel}>Auto-Unmute</Text>
+                  <Text style={styles.settingDesc}>Enable audio automatically</Text>
+                </View>
+                <Switch
+                  value={settings.autoUnmute}
+                  onValueChange={(v) => updateSetting('autoUnmute', v)}
+                  trackColor={{ false: '#3d3d3d', true: '#9147ff' }}
+                  thumbColor={settings.autoUnmute ? '#fff' : '#888'}
+                />
               </View>
-              <Switch
-                value={settings.playerOnlyMode}
-                onValueChange={(v) => updateSetting('playerOnlyMode', v)}
-                trackColor={{ false: '#3d3d3d', true: '#9147ff' }}
-                thumbColor={settings.playerOnlyMode ? '#fff' : '#888'}
-              />
-            </View>
 
-            <View style={styles.settingRow}>
-              <View style={styles.settingInfo}>
-                <Text style={styles.settingLabel}>TTS Enabled</Text>
-                <Text style={styles.settingDesc}>Read chat messages aloud</Text>
+              <View style={styles.settingRow}>
+                <View style={styles.settingInfo}>
+                  <Text style={styles.settingLabel}>Player-Only Mode</Text>
+                  <Text style={styles.settingDesc}>Hide Twitch side chat by default</Text>
+                </View>
+                <Switch
+                  value={appSettings.layout.playerOnlyMode}
+                  onValueChange={(v) => updateSettings('layout', { playerOnlyMode: v })}
+                  trackColor={{ false: '#3d3d3d', true: '#9147ff' }}
+                  thumbColor={appSettings.layout.playerOnlyMode ? '#fff' : '#888'}
+                />
               </View>
-              <Switch
-                value={settings.ttsEnabled}
-                onValueChange={(v) => updateSetting('ttsEnabled', v)}
-                trackColor={{ false: '#3d3d3d', true: '#9147ff' }}
-                thumbColor={settings.ttsEnabled ? '#fff' : '#888'}
-              />
-            </View>
 
-            {Platform.OS === 'web' && (
-              <TouchableOpacity
-                style={styles.shortcutButton}
-                onPress={() => {
-                  setShowSettings(false);
-                  setShowShortcutSettings(true);
-                }}
-              >
-                <Ionicons name="keyboard-outline" size={20} color="#efeff1" />
-                <Text style={styles.shortcutButtonText}>Keyboard Shortcuts</Text>
-                <Ionicons name="chevron-forward" size={20} color="#adadb8" />
-              </TouchableOpacity>
-            )}
+              <View style={styles.settingRow}>
+                <View style={styles.settingInfo}>
+                  <Text style={styles.settingLabel}>TTS Enabled</Text>
+                  <Text style={styles.settingDesc}>Read chat messages aloud</Text>
+                </View>
+                <Switch
+                  value={settings.ttsEnabled}
+                  onValueChange={(v) => updateSetting('ttsEnabled', v)}
+                  trackColor={{ false: '#3d3d3d', true: '#9147ff' }}
+                  thumbColor={settings.ttsEnabled ? '#fff' : '#888'}
+                />
+              </View>
+
+              <Text style={styles.settingsSectionTitle}>TTS Filters</Text>
+
+              {([
+                ['ignoredUsers', 'Ignored users', 'nightbot, streamelements'],
+                ['ignoredPrefixes', 'Ignored prefixes', '!, /'],
+                ['includeKeywords', 'Only read messages containing', 'any message'],
+                ['excludeKeywords', 'Never read messages containing', 'word, /regex/i'],
+              ] as [ListFilterKey, string, string][]).map(([key, label, placeholder]) => (
+                <View key={key}>
+                  <Text style={styles.modalLabel}>{label}:</Text>
+                  <TextInput
+                    style={styles.pinInput}
+                    placeholder={placeholder}
+                    placeholderTextColor="#666"
+                    value={filterDrafts[key] ?? ttsFilters[key].join(', ')}
+                    onChangeText={(text) => updateFilterList(key, text)}
+                    onBlur={() => setFilterDrafts(prev => ({ ...prev, [key]: undefined }))}
+                    autoCapitalize="none"
+                  />
+                </View>
+              ))}
+
+              <Text style={styles.modalLabel}>
+                Read: {ttsFilters.allowedRoles.length > 0 ? 'only selected roles' : 'everyone'}
+              </Text>
+              <View style={styles.speedButtons}>
+                {([
+                  ['subscriber', 'Subs'],
+                  ['vip', 'VIPs'],
+                  ['moderator', 'Mods'],
+                ] as [TtsRoleFilter, string][]).map(([role, label]) => (
+                  <TouchableOpacity
+                    key={role}
+                    style={[
+                      styles.speedButton,
+                      ttsFilters.allowedRoles.includes(role) && styles.speedButtonSelected,
+                    ]}
+                    onPress={() => toggleAllowedRole(role)}
+                  >
+                    <Text style={styles.speedButtonText}>{label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.modalLabel}>Minimum account age:</Text>
+              <View style={styles.speedButtons}>
+                {[0, 1, 7, 30].map((days) => (
+                  <TouchableOpacity
+                    key={days}
+                    style={[
+                      styles.speedButton,
+                      ttsFilters.minAccountAgeDays === days && styles.speedButtonSelected,
+                    ]}
+                    onPress={() => updateTtsFilters({ minAccountAgeDays: days })}
+                  >
+                    <Text style={styles.speedButtonText}>{days > 0 ? `${days}d` : 'Off'}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <View style={styles.settingRow}>
+                <View style={styles.settingInfo}>
+                  <Text style={styles.settingLabel}>Mentions Only</Text>
+                  <Text style={styles.settingDesc}>Only read messages that mention you</Text>
+                </View>
+                <Switch
+                  value={ttsFilters.mentionsOnly}
+                  onValueChange={(v) => updateTtsFilters({ mentionsOnly: v })}
+                  trackColor={{ false: '#3d3d3d', true: '#9147ff' }}
+                  thumbColor={ttsFilters.mentionsOnly ? '#fff' : '#888'}
+                />
+              </View>
+
+              <Text style={styles.settingsSectionTitle}>Voice Commands</Text>
+
+              <Text style={styles.modalLabel}>Listen:</Text>
+              <View style={styles.speedButtons}>
+                {([
+                  ['push-to-talk', 'When I press the mic'],
+                  ['wake-phrase', 'For the wake phrase'],
+                ] as [VoiceCommandMode, string][]).map(([mode, label]) => (
+                  <TouchableOpacity
+                    key={mode}
+                    style={[
+                      styles.speedButton,
+                      voiceCommandSettings.mode === mode && styles.speedButtonSelected,
+                    ]}
+                    onPress={() => updateSettings('voiceCommands', { mode })}
+                  >
+                    <Text style={styles.speedButtonText}>{label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.modalLabel}>Language:</Text>
+              <View style={[styles.speedButtons, styles.wrappingButtons]}>
+                {RECOGNITION_LANGUAGES.map(({ code, label }) => (
+                  <TouchableOpacity
+                    key={code}
+                    style={[
+                      styles.speedButton,
+                      voiceCommandSettings.language === code && styles.speedButtonSelected,
+                    ]}
+                    onPress={() => updateSettings('voiceCommands', { language: code })}
+                  >
+                    <Text style={styles.speedButtonText}>{label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {voiceCommandSettings.mode === 'wake-phrase' && (
+                <View>
+                  <Text style={styles.modalLabel}>Wake phrase:</Text>
+                  <TextInput
+                    style={styles.pinInput}
+                    placeholder="hey twitch"
+                    placeholderTextColor="#666"
+                    defaultValue={voiceCommandSettings.wakePhrase}
+                    onEndEditing={(e) => updateSettings('voiceCommands', { wakePhrase: e.nativeEvent.text.trim() || 'hey twitch' })}
+                    autoCapitalize="none"
+                  />
+                </View>
+              )}
+
+              <View style={styles.settingRow}>
+                <View style={styles.settingInfo}>
+                  <Text style={styles.settingLabel}>Spoken Confirmations</Text>
+                  <Text style={styles.settingDesc}>Say what a voice command did</Text>
+                </View>
+                <Switch
+                  value={voiceCommandSettings.confirmations}
+                  onValueChange={(v) => updateSettings('voiceCommands', { confirmations: v })}
+                  trackColor={{ false: '#3d3d3d', true: '#9147ff' }}
+                  thumbColor={voiceCommandSettings.confirmations ? '#fff' : '#888'}
+                />
+              </View>
+              <Text style={styles.settingDesc}>
+                {'Try "switch to xqc", "read faster", "skip", "hide chat", "what\'s the title" or "send hello". '
+                  + 'Only "send ..." writes to chat.'}
+              </Text>
+
+              {Platform.OS === 'web' && (
+                <TouchableOpacity
+                  style={styles.shortcutButton}
+                  onPress={() => {
+                    setShowSettings(false);
+                    setShowShortcutSettings(true);
+                  }}
+                >
+                  <Ionicons name="keyboard-outline" size={20} color="#efeff1" />
+                  <Text style={styles.shortcutButtonText}>Keyboard Shortcuts</Text>
+                  <Ionicons name="chevron-forward" size={20} color="#adadb8" />
+                </TouchableOpacity>
+              )}
+            </ScrollView>
 
             <TouchableOpacity
               style={styles.closeButton}
@@ -985,6 +1749,7 @@ export default function StreamScreen() {
                    key === 'toggleOurChat' ? 'Toggle Our Chat' :
                    key === 'openSettings' ? 'Open Settings' :
                    key === 'voiceInput' ? 'Voice Input' :
+                   key === 'skipTTS' ? 'Skip TTS Message' :
                    key === 'back' ? 'Go Back / Close' : key}
                 </Text>
                 <Text style={[styles.shortcutKey, editingShortcut === key && styles.shortcutKeyEditing]}>
@@ -1063,11 +1828,19 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
+  connectionStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 12,
+  },
   connectionDot: {
     width: 8,
     height: 8,
     borderRadius: 4,
-    marginRight: 12,
+  },
+  connectionLabel: {
+    fontSize: normalize(11),
+    marginLeft: 4,
   },
   toggleButton: {
     padding: 4,
@@ -1112,6 +1885,41 @@ const styles = StyleSheet.create({
     flexWrap: 'wrap',
     marginBottom: 6,
   },
+  messagePending: {
+    opacity: 0.5,
+  },
+  messageBroadcaster: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#eb0400',
+    paddingLeft: 6,
+  },
+  messageModerator: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#00ad03',
+    paddingLeft: 6,
+  },
+  messageVip: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#e005b9',
+    paddingLeft: 6,
+  },
+  badge: {
+    width: normalize(18),
+    height: normalize(18),
+    marginRight: 4,
+    alignSelf: 'center',
+  },
+  sendFailed: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '100%',
+    marginTop: 2,
+  },
+  sendFailedText: {
+    color: '#ff4444',
+    fontSize: normalize(12),
+    marginLeft: 4,
+  },
   username: {
     fontWeight: '600',
     fontSize: normalize(16),
@@ -1120,6 +1928,10 @@ const styles = StyleSheet.create({
     color: '#efeff1',
     fontSize: normalize(16),
   },
+  emote: {
+    width: normalize(24),
+    height: normalize(24),
+  },
   emptyChat: {
     flex: 1,
     justifyContent: 'center',
@@ -1186,6 +1998,9 @@ const styles = StyleSheet.create({
     marginTop: 12,
     marginBottom: 8,
   },
+  modalBody: {
+    flexGrow: 0,
+  },
   voiceList: {
     maxHeight: 200,
     borderRadius: 8,
@@ -1211,11 +2026,41 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 2,
   },
+  pinRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  pinInput: {
+    flex: 1,
+    height: 36,
+    backgroundColor: '#3d3d3d',
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    color: '#efeff1',
+    fontSize: 14,
+  },
+  pinText: {
+    flex: 1,
+    color: '#efeff1',
+    fontSize: 13,
+  },
+  ttsCurrent: {
+    color: '#efeff1',
+    fontSize: 12,
+    fontStyle: 'italic',
+  },
   speedButtons: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     marginTop: 8,
   },
+  wrappingButtons: {
+    flexWrap: 'wrap',
+    justifyContent: 'flex-start',
+    gap: 8,
+  },
   speedButton: {
     paddingVertical: 8,
     paddingHorizontal: 16,
@@ -1244,6 +2089,12 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  settingsSectionTitle: {
+    color: '#efeff1',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 20,
+  },
   settingRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1319,6 +2170,40 @@ const styles = StyleSheet.create({
     backgroundColor: '#9147ff',
     color: '#fff',
   },
+  roomStateBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    backgroundColor: '#18181b',
+    borderTopWidth: 1,
+    borderTopColor: '#3d3d3d',
+  },
+  roomStateText: {
+    color: '#adadb8',
+    fontSize: normalize(12),
+    marginLeft: 6,
+  },
+  banner: {
+    position: 'absolute',
+    top: Platform.OS === 'ios' ? 100 : 60,
+    left: 12,
+    right: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#9147ff',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 8,
+    zIndex: 10000,
+  },
+  bannerText: {
+    flex: 1,
+    color: '#fff',
+    fontSize: normalize(14),
+    fontWeight: '600',
+    marginLeft: 8,
+  },
   toast: {
     position: 'absolute',
     top: '50%',
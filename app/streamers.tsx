@@ -1,8 +1,8 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useRef, useMemo } from 'react';
 import {
   View,
   Text,
-  FlatList,
+  SectionList,
   TouchableOpacity,
   StyleSheet,
   TextInput,
@@ -10,35 +10,97 @@ import {
   RefreshControl,
   Image,
   Platform,
+  Modal,
+  Switch,
+  ScrollView,
 } from 'react-native';
-import { useRouter } from 'expo-router';
+import { useRouter, useFocusEffect } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import { useAuth } from '../contexts/AuthContext';
-import { getFollowedStreamers } from '../services/twitchApi';
+import { useAuth, describeAuthNotice } from '../contexts/AuthContext';
+import { useSettings, useChannelSettings } from '../contexts/SettingsContext';
+import { useLiveStatus } from '../contexts/LiveStatusContext';
+import { getFollowedStreamers, getCachedFollowedStreamers } from '../services/twitchApi';
+import { HelixError, isAbortError } from '../services/helixClient';
+import { areNotificationsSupported, requestNotificationPermission } from '../services/localNotifications';
+import {
+  exportSettings,
+  parseSettingsImport,
+  diffSettings,
+  mergeSettings,
+  saveSettingsFile,
+  pickSettingsFile,
+  ImportMode,
+} from '../services/settingsTransfer';
+import { AppSettings } from '../services/settingsStore';
+import { buildStreamerSections, StreamerSection, WatchHistory, SORT_MODES } from '../services/streamerSort';
+import { getWatchHistory } from '../services/watchHistory';
+import { matchStreamer, describeVoiceChoice } from '../services/voiceMatch';
+import { ttsQueue } from '../services/ttsQueue';
+import { parseVoiceCommand, stripWakePhrase } from '../services/voiceCommands';
+import { speechRecognizer } from '../services/speechRecognizer';
 import { StreamerDisplay } from '../types/twitch';
 
 export default function StreamerListScreen() {
   const router = useRouter();
-  const { accessToken, user, logout } = useAuth();
+  const { accessToken, user, logout, notice, dismissNotice } = useAuth();
   const [streamers, setStreamers] = useState<StreamerDisplay[]>([]);
   const [filteredStreamers, setFilteredStreamers] = useState<StreamerDisplay[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [isListening, setIsListening] = useState(false);
+  const [profileStreamer, setProfileStreamer] = useState<StreamerDisplay | null>(null);
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [showAccounts, setShowAccounts] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const loadControllerRef = useRef<AbortController | null>(null);
+  const loadedUserRef = useRef<string | null>(null);
+  const { settings, updateSettings } = useSettings();
+  const { lastPolledAt } = useLiveStatus();
+  const [showNotificationSettings, setShowNotificationSettings] = useState(false);
+  const [groupStreamer, setGroupStreamer] = useState<StreamerDisplay | null>(null);
+  const [showGroups, setShowGroups] = useState(false);
+  const [watchHistory, setWatchHistory] = useState<WatchHistory>({});
+  const [voiceChoice, setVoiceChoice] = useState<{ transcript: string; options: StreamerDisplay[] } | null>(null);
+  const listSettings = settings.streamerList;
 
   const loadStreamers = useCallback(async () => {
     if (!accessToken || !user) return;
 
+    // Only the latest load counts, e.g. after switching accounts mid-load
+    loadControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
+
     try {
-      const data = await getFollowedStreamers(accessToken, user.id);
+      // Show the last known list straight away on launch or after switching accounts, then bring it up to date
+      if (loadedUserRef.current !== user.id) {
+        const cached = await getCachedFollowedStreamers(user.id);
+        if (cached && !controller.signal.aborted) {
+          setStreamers(cached);
+          setFilteredStreamers(cached);
+          setIsLoading(false);
+        }
+      }
+
+      const data = await getFollowedStreamers(accessToken, user.id, controller.signal);
+      loadedUserRef.current = user.id;
       setStreamers(data);
       setFilteredStreamers(data);
+      setLoadError(null);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Failed to load streamers:', error);
+      setLoadError(
+        error instanceof HelixError && error.isTransient
+          ? 'Twitch is busy right now. Pull to refresh in a moment.'
+          : 'Could not load the channels you follow.'
+      );
     } finally {
-      setIsLoading(false);
-      setRefreshing(false);
+      if (loadControllerRef.current === controller) {
+        setIsLoading(false);
+        setRefreshing(false);
+      }
     }
   }, [accessToken, user]);
 
@@ -46,6 +108,25 @@ export default function StreamerListScreen() {
     loadStreamers();
   }, [loadStreamers]);
 
+  useEffect(() => {
+    return () => loadControllerRef.current?.abort();
+  }, []);
+
+  // The live poller refreshes cached streams in the background; pick up what it found
+  useEffect(() => {
+    if (!lastPolledAt || !user || loadedUserRef.current !== user.id) return;
+    getCachedFollowedStreamers(user.id).then(cached => {
+      if (cached && loadedUserRef.current === user.id) setStreamers(cached);
+    });
+  }, [lastPolledAt, user]);
+
+  // Twitch revoked the last session during an hourly check
+  useEffect(() => {
+    if (notice?.type === 'ended' && !notice.login) {
+      router.replace('/');
+    }
+  }, [notice]);
+
   useEffect(() => {
     if (searchQuery.trim() === '') {
       setFilteredStreamers(streamers);
@@ -61,6 +142,29 @@ export default function StreamerListScreen() {
     }
   }, [searchQuery, streamers]);
 
+  // Recently watched changes every time a stream is opened and closed again
+  useFocusEffect(
+    useCallback(() => {
+      getWatchHistory().then(setWatchHistory);
+    }, [])
+  );
+
+  const sections = useMemo(
+    () => buildStreamerSections(filteredStreamers, { ...listSettings, history: watchHistory }),
+    [filteredStreamers, listSettings, watchHistory]
+  );
+
+  // Two cards per row; collapsed sections keep their header but no rows
+  const listSections = sections.map(section => {
+    const rows: StreamerDisplay[][] = [];
+    if (!listSettings.collapsedSections.includes(section.key)) {
+      for (let i = 0; i < section.data.length; i += 2) {
+        rows.push(section.data.slice(i, i + 2));
+      }
+    }
+    return { ...section, count: section.data.length, data: rows };
+  });
+
   const onRefresh = () => {
     setRefreshing(true);
     loadStreamers();
@@ -70,50 +174,47 @@ export default function StreamerListScreen() {
     router.push(`/stream/${streamer.login}`);
   };
 
-  const handleVoiceSelect = async () => {
-    // Voice recognition for streamer selection
-    setIsListening(true);
-
-    // For now, we'll use a simple approach that works on web
-    // On native, you'd use expo-speech-recognition
-    if (Platform.OS === 'web' && 'webkitSpeechRecognition' in window) {
-      const SpeechRecognition = (window as any).webkitSpeechRecognition;
-      const recognition = new SpeechRecognition();
-      recognition.continuous = false;
-      recognition.interimResults = false;
-
-      recognition.onresult = (event: any) => {
-        const transcript = event.results[0][0].transcript.toLowerCase();
-        setIsListening(false);
-
-        // Find matching streamer
-        const match = streamers.find(
-          s =>
-            s.display_name.toLowerCase().includes(transcript) ||
-            s.login.toLowerCase().includes(transcript)
-        );
-
-        if (match) {
-          handleStreamerPress(match);
-        } else {
-          setSearchQuery(transcript);
-        }
-      };
-
-      recognition.onerror = () => {
-        setIsListening(false);
-      };
-
-      recognition.onend = () => {
-        setIsListening(false);
-      };
-
-      recognition.start();
+  // Several alternatives from the recognizer, best guess first
+  const handleVoiceTranscript = (transcripts: string[]) => {
+    // "switch to xqc" works here too; anything else is taken as a name
+    const alternatives = transcripts.map(transcript => {
+      const command = parseVoiceCommand(stripWakePhrase(transcript, settings.voiceCommands.wakePhrase) || transcript);
+      return command?.intent === 'switch' ? command.slots.streamer : transcript;
+    });
+    const result = matchStreamer(alternatives, streamers, listSettings.aliases);
+    if (result.type === 'match') {
+      handleStreamerPress(result.streamer);
+    } else if (result.type === 'ambiguous') {
+      const question = describeVoiceChoice(result.options);
+      setVoiceChoice({ transcript: alternatives[0], options: result.options });
+      ttsQueue.enqueue({ id: `voice-choice-${Date.now()}`, text: question, priority: 'mention' });
     } else {
-      // Fallback for platforms without speech recognition
-      setIsListening(false);
+      setSearchQuery(alternatives[0].toLowerCase());
+    }
+  };
+
+  const handleVoiceSelect = async () => {
+    if (!speechRecognizer.isAvailable()) {
       alert('Voice recognition not available on this platform');
+      return;
     }
+    setIsListening(true);
+    await speechRecognizer.start(
+      {
+        lang: settings.voiceCommands.language,
+        maxAlternatives: 3,
+        contextualStrings: streamers.map(s => s.display_name),
+      },
+      {
+        onResult: ({ alternatives, isFinal }) => {
+          if (isFinal) handleVoiceTranscript(alternatives);
+        },
+        onError: (error) => {
+          if (error.code !== 'aborted' && error.code !== 'no-speech') alert(error.message);
+        },
+        onEnd: () => setIsListening(false),
+      }
+    );
   };
 
   const handleLogout = async () => {
@@ -128,10 +229,61 @@ export default function StreamerListScreen() {
     return count.toString();
   };
 
+  const isFavorite = (streamer: StreamerDisplay) =>
+    listSettings.favorites.includes(streamer.login.toLowerCase());
+
+  const toggleFavorite = (streamer: StreamerDisplay) => {
+    const login = streamer.login.toLowerCase();
+    updateSettings('streamerList', {
+      favorites: isFavorite(streamer)
+        ? listSettings.favorites.filter(f => f !== login)
+        : [...listSettings.favorites, login],
+    });
+  };
+
+  const toggleSection = (key: string) => {
+    const collapsed = listSettings.collapsedSections;
+    updateSettings('streamerList', {
+      collapsedSections: collapsed.includes(key) ? collapsed.filter(k => k !== key) : [...collapsed, key],
+    });
+  };
+
+  const renderSectionHeader = ({ section }: { section: Omit<StreamerSection, 'data'> & { count: number } }) => {
+    const collapsed = listSettings.collapsedSections.includes(section.key);
+    return (
+      <TouchableOpacity style={styles.sectionHeader} onPress={() => toggleSection(section.key)}>
+        <Ionicons name={collapsed ? 'chevron-forward' : 'chevron-down'} size={16} color="#adadb8" />
+        <Text style={styles.sectionTitle}>{section.title}</Text>
+        <Text style={styles.sectionCount}>
+          {section.key === 'offline' ? section.count : `${section.liveCount} live · ${section.count}`}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderRow = ({ item }: { item: StreamerDisplay[] }) => (
+    <View style={styles.row}>
+      {item.map(streamer => renderStreamer({ item: streamer }))}
+    </View>
+  );
+
+  const isNotified = (streamer: StreamerDisplay) =>
+    settings.notifications.channels.includes(streamer.login.toLowerCase());
+
+  const toggleNotify = (streamer: StreamerDisplay) => {
+    const login = streamer.login.toLowerCase();
+    const channels = settings.notifications.channels;
+    updateSettings('notifications', {
+      channels: channels.includes(login) ? channels.filter(c => c !== login) : [...channels, login],
+    });
+  };
+
   const renderStreamer = ({ item }: { item: StreamerDisplay }) => (
     <TouchableOpacity
+      key={item.id}
       style={styles.streamerCard}
       onPress={() => handleStreamerPress(item)}
+      onLongPress={() => setGroupStreamer(item)}
       activeOpacity={0.7}
     >
       {item.is_live && item.thumbnail_url ? (
@@ -159,6 +311,27 @@ export default function StreamerListScreen() {
               <Text style={styles.liveBadgeText}>LIVE</Text>
             </View>
           )}
+          <TouchableOpacity style={styles.profileButton} onPress={() => toggleFavorite(item)}>
+            <Ionicons
+              name={isFavorite(item) ? 'star' : 'star-outline'}
+              size={16}
+              color={isFavorite(item) ? '#f5a623' : '#adadb8'}
+            />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.profileButton} onPress={() => toggleNotify(item)}>
+            <Ionicons
+              name={isNotified(item) ? 'notifications' : 'notifications-outline'}
+              size={16}
+              color={isNotified(item) ? '#9147ff' : '#adadb8'}
+            />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.profileButton} onPress={() => setProfileStreamer(item)}>
+            <Ionicons
+              name={settings.channelProfiles[item.login.toLowerCase()] ? 'options' : 'options-outline'}
+              size={16}
+              color={settings.channelProfiles[item.login.toLowerCase()] ? '#9147ff' : '#adadb8'}
+            />
+          </TouchableOpacity>
         </View>
 
         {item.is_live ? (
@@ -211,24 +384,69 @@ export default function StreamerListScreen() {
           </TouchableOpacity>
         </View>
 
+        <TouchableOpacity style={styles.logoutButton} onPress={() => setShowAccounts(true)}>
+          {user?.profile_image_url ? (
+            <Image source={{ uri: user.profile_image_url }} style={styles.headerAvatar} />
+          ) : (
+            <Ionicons name="people-outline" size={24} color="#adadb8" />
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.logoutButton} onPress={() => setShowNotificationSettings(true)}>
+          <Ionicons name="notifications-outline" size={24} color="#adadb8" />
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.logoutButton} onPress={() => setShowTransfer(true)}>
+          <Ionicons name="swap-vertical-outline" size={24} color="#adadb8" />
+        </TouchableOpacity>
+
         <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
           <Ionicons name="log-out-outline" size={24} color="#adadb8" />
         </TouchableOpacity>
       </View>
 
+      {notice && (notice.type !== 'ended' || notice.login) && (
+        <TouchableOpacity
+          style={styles.noticeBar}
+          onPress={() => router.push(notice.type === 'ended' ? '/?add=1' : '/?reauth=1')}
+        >
+          <Ionicons name="warning-outline" size={18} color="#f5a623" />
+          <Text style={styles.noticeText}>{describeAuthNotice(notice)}</Text>
+          <TouchableOpacity onPress={dismissNotice}>
+            <Ionicons name="close" size={18} color="#adadb8" />
+          </TouchableOpacity>
+        </TouchableOpacity>
+      )}
+
       <View style={styles.statsBar}>
         <Text style={styles.statsText}>
           {liveCount} live · {streamers.length} following
         </Text>
       </View>
 
-      <FlatList
-        data={filteredStreamers}
-        renderItem={renderStreamer}
-        keyExtractor={(item) => item.id}
-        numColumns={2}
+      <ScrollView horizontal style={styles.sortBar} contentContainerStyle={styles.sortBarContent} showsHorizontalScrollIndicator={false}>
+        {SORT_MODES.map(({ mode, label }) => (
+          <TouchableOpacity
+            key={mode}
+            style={[styles.sortChip, listSettings.sortMode === mode && styles.sortChipSelected]}
+            onPress={() => updateSettings('streamerList', { sortMode: mode })}
+          >
+            <Text style={styles.sortChipText}>{label}</Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity style={styles.sortChip} onPress={() => setShowGroups(true)}>
+          <Ionicons name="folder-outline" size={14} color="#efeff1" />
+          <Text style={styles.sortChipText}>Groups</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      <SectionList
+        sections={listSections}
+        renderItem={renderRow}
+        renderSectionHeader={renderSectionHeader}
+        keyExtractor={(row) => row.map(s => s.id).join('-')}
+        stickySectionHeadersEnabled={false}
         contentContainerStyle={styles.listContent}
-        columnWrapperStyle={styles.row}
         refreshControl={
           <RefreshControl
             refreshing={refreshing}
@@ -240,15 +458,614 @@ export default function StreamerListScreen() {
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
             <Text style={styles.emptyText}>
-              {searchQuery ? 'No streamers found' : 'Not following anyone yet'}
+              {loadError ?? (searchQuery ? 'No streamers found' : 'Not following anyone yet')}
             </Text>
           </View>
         }
       />
+
+      {profileStreamer && (
+        <ChannelProfileModal
+          streamer={profileStreamer}
+          onClose={() => setProfileStreamer(null)}
+        />
+      )}
+
+      {showTransfer && <SettingsTransferModal onClose={() => setShowTransfer(false)} />}
+
+      {showAccounts && <AccountPickerModal onClose={() => setShowAccounts(false)} />}
+
+      {groupStreamer && <StreamerGroupsModal streamer={groupStreamer} onClose={() => setGroupStreamer(null)} />}
+
+      {showGroups && <GroupManagerModal onClose={() => setShowGroups(false)} />}
+
+      {voiceChoice && (
+        <VoiceChoiceModal
+          options={voiceChoice.options}
+          onSelect={(streamer) => {
+            setVoiceChoice(null);
+            handleStreamerPress(streamer);
+          }}
+          onSearch={() => {
+            setSearchQuery(voiceChoice.transcript.toLowerCase());
+            setVoiceChoice(null);
+          }}
+          onClose={() => setVoiceChoice(null)}
+        />
+      )}
+
+      {showNotificationSettings && (
+        <NotificationSettingsModal onClose={() => setShowNotificationSettings(false)} />
+      )}
     </View>
   );
 }
 
+// Overrides for one channel, applied when its stream screen opens
+function ChannelProfileModal({ streamer, onClose }: { streamer: StreamerDisplay; onClose: () => void }) {
+  const { createChannelProfile, removeChannelProfile } = useSettings();
+  const { settings, profile, updateSettings } = useChannelSettings(streamer.login);
+
+  const switchRows: { label: string; value: boolean; onChange: (value: boolean) => void }[] = [
+    { label: 'Auto-play', value: settings.stream.autoPlay, onChange: v => updateSettings('stream', { autoPlay: v }) },
+    { label: 'Auto-unmute', value: settings.stream.autoUnmute, onChange: v => updateSettings('stream', { autoUnmute: v }) },
+    { label: 'Player only', value: settings.layout.playerOnlyMode, onChange: v => updateSettings('layout', { playerOnlyMode: v }) },
+    { label: 'Read chat aloud', value: settings.stream.ttsEnabled, onChange: v => updateSettings('stream', { ttsEnabled: v }) },
+    { label: 'Mentions only', value: settings.filters.mentionsOnly, onChange: v => updateSettings('filters', { mentionsOnly: v }) },
+  ];
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.modalOverlay} activeOpacity={1} onPress={onClose}>
+        <View style={styles.modal} onStartShouldSetResponder={() => true}>
+          <Text style={styles.modalTitle}>{streamer.display_name}</Text>
+
+          {!profile ? (
+            <>
+              <Text style={styles.modalText}>
+                This channel uses your global settings.
+              </Text>
+              <TouchableOpacity
+                style={styles.modalButton}
+                onPress={() => createChannelProfile(streamer.login)}
+              >
+                <Text style={styles.modalButtonText}>Create channel profile</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              {switchRows.map(row => (
+                <View key={row.label} style={styles.profileRow}>
+                  <Text style={styles.profileLabel}>{row.label}</Text>
+                  <Switch
+                    value={row.value}
+                    onValueChange={row.onChange}
+                    trackColor={{ false: '#3d3d3d', true: '#9147ff' }}
+                    thumbColor={row.value ? '#fff' : '#888'}
+                  />
+                </View>
+              ))}
+
+              <Text style={styles.profileLabel}>Speech rate: {settings.voice.rate.toFixed(1)}x</Text>
+              <View style={styles.rateButtons}>
+                {[0.8, 1.0, 1.2, 1.5, 2.0].map(rate => (
+                  <TouchableOpacity
+                    key={rate}
+                    style={[styles.rateButton, settings.voice.rate === rate && styles.rateButtonSelected]}
+                    onPress={() => updateSettings('voice', { rate })}
+                  >
+                    <Text style={styles.rateButtonText}>{rate}x</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.modalText}>
+                Voice and TTS filters can be changed from the stream&apos;s settings while watching.
+              </Text>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.modalButtonDanger]}
+                onPress={() => removeChannelProfile(streamer.login)}
+              >
+                <Text style={styles.modalButtonText}>Remove profile</Text>
+              </TouchableOpacity>
+            </>
+          )}
+
+          <TouchableOpacity style={styles.modalButton} onPress={onClose}>
+            <Text style={styles.modalButtonText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+// Chat is read as the active account and sent as it too, unless another account is picked to send as
+function AccountPickerModal({ onClose }: { onClose: () => void }) {
+  const router = useRouter();
+  const { user, accounts, sendAccount, switchAccount, setSendAccount, removeAccount } = useAuth();
+
+  const handleAdd = () => {
+    onClose();
+    router.push('/?add=1');
+  };
+
+  const handleRemove = async (userId: string) => {
+    await removeAccount(userId);
+    if (accounts.length === 1) {
+      onClose();
+      router.replace('/');
+    }
+  };
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.modalOverlay} activeOpacity={1} onPress={onClose}>
+        <View style={styles.modal} onStartShouldSetResponder={() => true}>
+          <Text style={styles.modalTitle}>Accounts</Text>
+
+          {accounts.map(account => {
+            const isActive = account.id === user?.id;
+            const isSender = sendAccount ? account.id === sendAccount.user.id : isActive;
+            return (
+              <View key={account.id} style={styles.accountRow}>
+                <TouchableOpacity style={styles.accountInfo} onPress={() => switchAccount(account.id)}>
+                  <Image source={{ uri: account.profile_image_url }} style={styles.accountAvatar} />
+                  <View style={styles.accountText}>
+                    <Text style={styles.accountName} numberOfLines={1}>{account.display_name}</Text>
+                    <Text style={styles.accountRole}>
+                      {[isActive && 'Reading chat', isSender && 'Sending'].filter(Boolean).join(' · ') || 'Tap to read chat'}
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.accountAction}
+                  onPress={() => setSendAccount(isSender ? null : account.id)}
+                  disabled={isActive && !sendAccount}
+                >
+                  <Ionicons name={isSender ? 'send' : 'send-outline'} size={18} color={isSender ? '#9147ff' : '#adadb8'} />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.accountAction} onPress={() => handleRemove(account.id)}>
+                  <Ionicons name="trash-outline" size={18} color="#adadb8" />
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+
+          <Text style={styles.modalText}>
+            Tap an account to read chat as it, or the send icon to send messages as it.
+          </Text>
+
+          <TouchableOpacity style={styles.modalButton} onPress={handleAdd}>
+            <Text style={styles.modalButtonText}>Add account</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.modalButton, styles.modalButtonSecondary]} onPress={onClose}>
+            <Text style={styles.modalButtonText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const newGroupId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// Favorite and group membership for one channel, opened by long-pressing its card
+function StreamerGroupsModal({ streamer, onClose }: { streamer: StreamerDisplay; onClose: () => void }) {
+  const { settings, updateSettings } = useSettings();
+  const { favorites, groups, aliases } = settings.streamerList;
+  const login = streamer.login.toLowerCase();
+  const [newGroupName, setNewGroupName] = useState('');
+  const [nicknames, setNicknames] = useState((aliases[login] ?? []).join(', '));
+
+  // Comma separated, e.g. "the goat, big t"
+  const updateNicknames = (text: string) => {
+    setNicknames(text);
+    const names = text.split(',').map(name => name.trim()).filter(Boolean);
+    const { [login]: _previous, ...others } = aliases;
+    updateSettings('streamerList', { aliases: names.length > 0 ? { ...others, [login]: names } : others });
+  };
+
+  const setFavorite = (favorite: boolean) => {
+    updateSettings('streamerList', {
+      favorites: favorite ? [...favorites, login] : favorites.filter(f => f !== login),
+    });
+  };
+
+  const toggleGroup = (id: string) => {
+    updateSettings('streamerList', {
+      groups: groups.map(group => group.id !== id ? group : {
+        ...group,
+        channels: group.channels.includes(login)
+          ? group.channels.filter(c => c !== login)
+          : [...group.channels, login],
+      }),
+    });
+  };
+
+  const addGroup = () => {
+    const name = newGroupName.trim();
+    if (!name) return;
+    updateSettings('streamerList', { groups: [...groups, { id: newGroupId(), name, channels: [login] }] });
+    setNewGroupName('');
+  };
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.modalOverlay} activeOpacity={1} onPress={onClose}>
+        <View style={styles.modal} onStartShouldSetResponder={() => true}>
+          <Text style={styles.modalTitle}>{streamer.display_name}</Text>
+
+          <View style={styles.profileRow}>
+            <Text style={styles.profileLabel}>Favorite</Text>
+            <Switch
+              value={favorites.includes(login)}
+              onValueChange={setFavorite}
+              trackColor={{ false: '#3d3d3d', true: '#9147ff' }}
+              thumbColor={favorites.includes(login) ? '#fff' : '#888'}
+            />
+          </View>
+
+          {groups.map(group => {
+            const member = group.channels.includes(login);
+            return (
+              <TouchableOpacity key={group.id} style={styles.profileRow} onPress={() => toggleGroup(group.id)}>
+                <Text style={styles.profileLabel}>{group.name}</Text>
+                <Ionicons name={member ? 'checkbox' : 'square-outline'} size={22} color={member ? '#9147ff' : '#adadb8'} />
+              </TouchableOpacity>
+            );
+          })}
+
+          <View style={styles.groupInputRow}>
+            <TextInput
+              style={styles.groupInput}
+              placeholder="New group"
+              placeholderTextColor="#666"
+              value={newGroupName}
+              onChangeText={setNewGroupName}
+              onSubmitEditing={addGroup}
+            />
+            <TouchableOpacity style={styles.accountAction} onPress={addGroup}>
+              <Ionicons name="add-circle-outline" size={24} color="#9147ff" />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.nicknameLabel}>Voice nicknames</Text>
+          <TextInput
+            style={styles.groupInput}
+            placeholder="Other names you call this channel, comma separated"
+            placeholderTextColor="#666"
+            value={nicknames}
+            onChangeText={updateNicknames}
+          />
+
+          <TouchableOpacity style={styles.modalButton} onPress={onClose}>
+            <Text style={styles.modalButtonText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+// Asked when a spoken name fits more than one channel about equally well
+function VoiceChoiceModal({
+  options,
+  onSelect,
+  onSearch,
+  onClose,
+}: {
+  options: StreamerDisplay[];
+  onSelect: (streamer: StreamerDisplay) => void;
+  onSearch: () => void;
+  onClose: () => void;
+}) {
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.modalOverlay} activeOpacity={1} onPress={onClose}>
+        <View style={styles.modal} onStartShouldSetResponder={() => true}>
+          <Text style={styles.modalTitle}>{describeVoiceChoice(options)}</Text>
+
+          {options.map(streamer => (
+            <TouchableOpacity key={streamer.id} style={styles.profileRow} onPress={() => onSelect(streamer)}>
+              <Text style={styles.profileLabel}>{streamer.display_name}</Text>
+              <Text style={styles.sectionCount}>
+                {streamer.is_live ? streamer.game_name || 'Live' : 'Offline'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity style={styles.modalButton} onPress={onSearch}>
+            <Text style={styles.modalButtonText}>Search instead</Text>
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+// Create, rename, reorder and delete groups; channels are added from their cards
+function GroupManagerModal({ onClose }: { onClose: () => void }) {
+  const { settings, updateSettings } = useSettings();
+  const { groups, collapsedSections } = settings.streamerList;
+  const [newGroupName, setNewGroupName] = useState('');
+
+  const setGroups = (next: typeof groups) => updateSettings('streamerList', { groups: next });
+
+  const addGroup = () => {
+    const name = newGroupName.trim();
+    if (!name) return;
+    setGroups([...groups, { id: newGroupId(), name, channels: [] }]);
+    setNewGroupName('');
+  };
+
+  const renameGroup = (id: string, name: string) => {
+    setGroups(groups.map(group => (group.id === id ? { ...group, name } : group)));
+  };
+
+  const moveGroup = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= groups.length) return;
+    const next = [...groups];
+    [next[index], next[target]] = [next[target], next[index]];
+    setGroups(next);
+  };
+
+  const removeGroup = (id: string) => {
+    updateSettings('streamerList', {
+      groups: groups.filter(group => group.id !== id),
+      collapsedSections: collapsedSections.filter(key => key !== `group:${id}`),
+    });
+  };
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.modalOverlay} activeOpacity={1} onPress={onClose}>
+        <View style={styles.modal} onStartShouldSetResponder={() => true}>
+          <Text style={styles.modalTitle}>Groups</Text>
+
+          {groups.length === 0 && (
+            <Text style={styles.modalText}>
+              Groups show up as their own sections. Long-press a channel to add it to one.
+            </Text>
+          )}
+
+          {groups.map((group, index) => (
+            <View key={group.id} style={styles.groupInputRow}>
+              <TextInput
+                style={styles.groupInput}
+                value={group.name}
+                onChangeText={name => renameGroup(group.id, name)}
+              />
+              <Text style={styles.sectionCount}>{group.channels.length}</Text>
+              <TouchableOpacity style={styles.accountAction} onPress={() => moveGroup(index, -1)}>
+                <Ionicons name="arrow-up" size={18} color="#adadb8" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.accountAction} onPress={() => moveGroup(index, 1)}>
+                <Ionicons name="arrow-down" size={18} color="#adadb8" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.accountAction} onPress={() => removeGroup(group.id)}>
+                <Ionicons name="trash-outline" size={18} color="#adadb8" />
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          <View style={styles.groupInputRow}>
+            <TextInput
+              style={styles.groupInput}
+              placeholder="New group, e.g. Speedrun"
+              placeholderTextColor="#666"
+              value={newGroupName}
+              onChangeText={setNewGroupName}
+              onSubmitEditing={addGroup}
+            />
+            <TouchableOpacity style={styles.accountAction} onPress={addGroup}>
+              <Ionicons name="add-circle-outline" size={24} color="#9147ff" />
+            </TouchableOpacity>
+          </View>
+
+          <TouchableOpacity style={styles.modalButton} onPress={onClose}>
+            <Text style={styles.modalButtonText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+// What the live poller announces, and how; which channels is set with the bell on each card
+function NotificationSettingsModal({ onClose }: { onClose: () => void }) {
+  const { settings, updateSettings } = useSettings();
+  const notifications = settings.notifications;
+  const [permissionError, setPermissionError] = useState<string | null>(null);
+
+  const setNative = async (native: boolean) => {
+    setPermissionError(null);
+    if (native && !(await requestNotificationPermission())) {
+      setPermissionError('Notifications are blocked. Allow them in the system settings first.');
+      return;
+    }
+    updateSettings('notifications', { native });
+  };
+
+  const switchRows: { label: string; value: boolean; onChange: (value: boolean) => void }[] = [
+    { label: 'Check live status', value: notifications.enabled, onChange: v => updateSettings('notifications', { enabled: v }) },
+    { label: 'Show in-app alerts', value: notifications.toasts, onChange: v => updateSettings('notifications', { toasts: v }) },
+    { label: 'Announce with voice', value: notifications.speak, onChange: v => updateSettings('notifications', { speak: v }) },
+    ...(areNotificationsSupported()
+      ? [{ label: 'System notifications', value: notifications.native, onChange: setNative }]
+      : []),
+    { label: 'Game and title changes', value: notifications.announceChanges, onChange: v => updateSettings('notifications', { announceChanges: v }) },
+    { label: 'Going offline', value: notifications.announceOffline, onChange: v => updateSettings('notifications', { announceOffline: v }) },
+  ];
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.modalOverlay} activeOpacity={1} onPress={onClose}>
+        <View style={styles.modal} onStartShouldSetResponder={() => true}>
+          <Text style={styles.modalTitle}>Live notifications</Text>
+
+          {switchRows.map(row => (
+            <View key={row.label} style={styles.profileRow}>
+              <Text style={styles.profileLabel}>{row.label}</Text>
+              <Switch
+                value={row.value}
+                onValueChange={row.onChange}
+                trackColor={{ false: '#3d3d3d', true: '#9147ff' }}
+                thumbColor={row.value ? '#fff' : '#888'}
+              />
+            </View>
+          ))}
+
+          {permissionError && <Text style={styles.errorText}>{permissionError}</Text>}
+          {areNotificationsSupported() && (
+            <Text style={styles.modalText}>
+              Live status is only checked while the app is open or was just sent to the background.
+            </Text>
+          )}
+          <Text style={styles.modalText}>
+            {notifications.channels.length === 0
+              ? 'Tap the bell on a channel to be told when it goes live.'
+              : `Announcing ${notifications.channels.length} channel${notifications.channels.length === 1 ? '' : 's'}.`}
+          </Text>
+
+          <TouchableOpacity style={styles.modalButton} onPress={onClose}>
+            <Text style={styles.modalButtonText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const formatSettingValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  const text = JSON.stringify(value);
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+};
+
+// Share settings with other people or devices as a JSON file
+function SettingsTransferModal({ onClose }: { onClose: () => void }) {
+  const { settings, replaceSettings } = useSettings();
+  const [pasted, setPasted] = useState('');
+  const [incoming, setIncoming] = useState<AppSettings | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    try {
+      await saveSettingsFile(exportSettings(settings));
+    } catch (e) {
+      console.error('Failed to export settings:', e);
+      setError('Could not export settings');
+    }
+  };
+
+  const loadImport = (text: string) => {
+    try {
+      setIncoming(parseSettingsImport(text));
+      setError(null);
+    } catch (e) {
+      setIncoming(null);
+      setError(e instanceof Error ? e.message : 'Could not read settings');
+    }
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const text = await pickSettingsFile();
+      if (text) loadImport(text);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not read file');
+    }
+  };
+
+  const result = incoming && (mode === 'merge' ? mergeSettings(settings, incoming) : incoming);
+  const changes = result ? diffSettings(settings, result) : [];
+
+  const handleApply = () => {
+    if (!result) return;
+    replaceSettings(result);
+    onClose();
+  };
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.modalOverlay} activeOpacity={1} onPress={onClose}>
+        <View style={styles.modal} onStartShouldSetResponder={() => true}>
+          <Text style={styles.modalTitle}>Import / Export Settings</Text>
+
+          <TouchableOpacity style={styles.modalButton} onPress={handleExport}>
+            <Text style={styles.modalButtonText}>
+              {Platform.OS === 'web' ? 'Download settings file' : 'Share settings file'}
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.modalButton} onPress={handlePickFile}>
+            <Text style={styles.modalButtonText}>Import from file</Text>
+          </TouchableOpacity>
+          <TextInput
+            style={styles.pasteInput}
+            placeholder="Or paste exported settings here"
+            placeholderTextColor="#adadb8"
+            value={pasted}
+            onChangeText={setPasted}
+            onSubmitEditing={() => loadImport(pasted)}
+            onBlur={() => pasted.trim() && loadImport(pasted)}
+            multiline
+          />
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          {incoming && (
+            <>
+              <View style={styles.rateButtons}>
+                {(['merge', 'replace'] as ImportMode[]).map(option => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.rateButton, mode === option && styles.rateButtonSelected]}
+                    onPress={() => setMode(option)}
+                  >
+                    <Text style={styles.rateButtonText}>
+                      {option === 'merge' ? 'Merge with mine' : 'Replace mine'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.modalText}>
+                {changes.length === 0 ? 'No changes' : `${changes.length} change${changes.length === 1 ? '' : 's'}:`}
+              </Text>
+              <ScrollView style={styles.diffList}>
+                {changes.map(change => (
+                  <View key={change.path} style={styles.diffRow}>
+                    <Text style={styles.diffPath}>{change.path}</Text>
+                    <Text style={styles.diffValue}>
+                      {formatSettingValue(change.from)} → {formatSettingValue(change.to)}
+                    </Text>
+                  </View>
+                ))}
+              </ScrollView>
+
+              <TouchableOpacity
+                style={[styles.modalButton, changes.length === 0 && styles.modalButtonDisabled]}
+                onPress={handleApply}
+                disabled={changes.length === 0}
+              >
+                <Text style={styles.modalButtonText}>Apply</Text>
+              </TouchableOpacity>
+            </>
+          )}
+
+          <TouchableOpacity style={[styles.modalButton, styles.modalButtonSecondary]} onPress={onClose}>
+            <Text style={styles.modalButtonText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -296,6 +1113,24 @@ const styles = StyleSheet.create({
     marginLeft: 12,
     padding: 8,
   },
+  headerAvatar: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+  },
+  noticeBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#2b2114',
+  },
+  noticeText: {
+    flex: 1,
+    color: '#efeff1',
+    fontSize: 13,
+  },
   statsBar: {
     paddingHorizontal: 16,
     paddingVertical: 8,
@@ -311,8 +1146,52 @@ const styles = StyleSheet.create({
     padding: 8,
   },
   row: {
+    flexDirection: 'row',
     justifyContent: 'space-between',
   },
+  sortBar: {
+    flexGrow: 0,
+    backgroundColor: '#18181b',
+  },
+  sortBarContent: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 8,
+  },
+  sortChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#3d3d3d',
+  },
+  sortChipSelected: {
+    backgroundColor: '#9147ff',
+  },
+  sortChipText: {
+    color: '#efeff1',
+    fontSize: 13,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 4,
+    paddingTop: 8,
+    paddingBottom: 10,
+  },
+  sectionTitle: {
+    flex: 1,
+    color: '#efeff1',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  sectionCount: {
+    color: '#adadb8',
+    fontSize: 13,
+  },
   streamerCard: {
     width: '48%',
     backgroundColor: '#18181b',
@@ -348,6 +1227,10 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  profileButton: {
+    padding: 2,
+    marginLeft: 6,
+  },
   liveBadge: {
     backgroundColor: '#eb0400',
     paddingHorizontal: 6,
@@ -384,4 +1267,167 @@ const styles = StyleSheet.create({
     color: '#adadb8',
     fontSize: 16,
   },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modal: {
+    backgroundColor: '#18181b',
+    borderRadius: 12,
+    padding: 20,
+    width: '90%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    color: '#efeff1',
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  modalText: {
+    color: '#adadb8',
+    fontSize: 13,
+    marginVertical: 8,
+  },
+  profileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#3d3d3d',
+  },
+  profileLabel: {
+    color: '#efeff1',
+    fontSize: 15,
+    marginTop: 8,
+  },
+  rateButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  rateButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    backgroundColor: '#3d3d3d',
+  },
+  rateButtonSelected: {
+    backgroundColor: '#9147ff',
+  },
+  rateButtonText: {
+    color: '#efeff1',
+    fontSize: 13,
+  },
+  modalButton: {
+    backgroundColor: '#9147ff',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  modalButtonDanger: {
+    backgroundColor: '#eb0400',
+  },
+  modalButtonSecondary: {
+    backgroundColor: '#3d3d3d',
+  },
+  modalButtonDisabled: {
+    opacity: 0.5,
+  },
+  pasteInput: {
+    backgroundColor: '#3d3d3d',
+    borderRadius: 8,
+    color: '#efeff1',
+    fontSize: 13,
+    padding: 10,
+    marginTop: 12,
+    minHeight: 60,
+    maxHeight: 120,
+  },
+  errorText: {
+    color: '#eb0400',
+    fontSize: 13,
+    marginTop: 8,
+  },
+  diffList: {
+    maxHeight: 200,
+  },
+  diffRow: {
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#26262c',
+  },
+  diffPath: {
+    color: '#efeff1',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  diffValue: {
+    color: '#adadb8',
+    fontSize: 12,
+  },
+  accountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#3d3d3d',
+  },
+  accountInfo: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  accountAvatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#3d3d3d',
+  },
+  accountText: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  accountName: {
+    color: '#efeff1',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  accountRole: {
+    color: '#adadb8',
+    fontSize: 12,
+  },
+  accountAction: {
+    padding: 8,
+  },
+  nicknameLabel: {
+    color: '#adadb8',
+    fontSize: 13,
+    marginTop: 16,
+    marginBottom: 6,
+  },
+  groupInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  groupInput: {
+    flex: 1,
+    backgroundColor: '#3d3d3d',
+    borderRadius: 8,
+    color: '#efeff1',
+    fontSize: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    marginRight: 4,
+  },
+  modalButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
 });
@@ -1,53 +1,198 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { Platform } from 'react-native';
-import { TwitchUser, AuthState } from '../types/twitch';
-import { validateToken, getUser } from '../services/twitchApi';
-
-// Only import AsyncStorage for native platforms
-let AsyncStorage: any = null;
-if (Platform.OS !== 'web') {
-  AsyncStorage = require('@react-native-async-storage/async-storage').default;
-}
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { AppState } from 'react-native';
+import { AuthState, AuthNotice, TwitchAccount, TwitchTokens, TwitchUser } from '../types/twitch';
+import { validateToken, getUser, helix } from '../services/twitchApi';
+import { refreshTokens, AUTH_SCOPES } from '../services/twitchAuth';
+import { chatManager } from '../services/chatManager';
+import { storage } from '../services/storage';
+import { credentialStore } from '../services/credentialStore';
+import { helixCache } from '../services/helixCache';
 
 interface AuthContextType extends AuthState {
-  login: (token: string) => Promise<void>;
+  // Adds the account, or updates it if it's already stored, and reads chat as it
+  login: (tokens: TwitchTokens) => Promise<void>;
+  // Logs out of every account
   logout: () => Promise<void>;
+  switchAccount: (userId: string) => void;
+  // null sends as the account reading chat
+  setSendAccount: (userId: string | null) => void;
+  removeAccount: (userId: string) => Promise<void>;
+  // Validate now instead of waiting for the next scheduled check
+  checkSession: () => Promise<void>;
+  dismissNotice: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-const TOKEN_KEY = '@twitch_token';
+interface StoredAccounts {
+  accounts: TwitchAccount[];
+  // Account chat is read as
+  activeId: string | null;
+  // Account chat is sent as; null for the active one
+  sendId: string | null;
+}
+
+// What goes to plain storage; tokens live in the credential store
+interface SavedAccounts {
+  users: TwitchUser[];
+  activeId: string | null;
+  sendId: string | null;
+}
+
+const ACCOUNTS_KEY = '@twitch_accounts';
+// Single-account installs stored their tokens here, and older ones a bare access token
+const TOKENS_KEY = '@twitch_tokens';
+const LEGACY_TOKEN_KEY = '@twitch_token';
+
+const TOKENS_CREDENTIAL_PREFIX = 'twitch.tokens.';
+const tokensCredentialKey = (userId: string) => `${TOKENS_CREDENTIAL_PREFIX}${userId}`;
 
-// Storage wrapper that uses localStorage on web for reliability
-const storage = {
-  async getItem(key: string): Promise<string | null> {
-    if (Platform.OS === 'web' && typeof localStorage !== 'undefined') {
-      return localStorage.getItem(key);
+// Twitch requires apps to validate their tokens at least hourly
+const VALIDATE_INTERVAL = 60 * 60 * 1000;
+// Don't re-validate on every foreground if we just did
+const MIN_FOREGROUND_INTERVAL = 5 * 60 * 1000;
+const MIN_UNAUTHORIZED_INTERVAL = 30 * 1000;
+const EXPIRY_WARNING = 10 * 60 * 1000;
+
+const NO_ACCOUNTS: StoredAccounts = { accounts: [], activeId: null, sendId: null };
+
+const LOGGED_OUT: AuthState = {
+  accessToken: null,
+  user: null,
+  isLoading: false,
+  scopes: [],
+  expiresAt: null,
+  notice: null,
+  accounts: [],
+  sendAccount: null,
+};
+
+async function readStoredAccounts(): Promise<StoredAccounts> {
+  const stored = await storage.getItem(ACCOUNTS_KEY);
+  if (stored) {
+    const saved = JSON.parse(stored);
+    // Saved with the tokens inline, before they moved to the credential store
+    if (saved.accounts) return saved;
+
+    const accounts: TwitchAccount[] = [];
+    for (const user of (saved as SavedAccounts).users) {
+      const tokens = await credentialStore.get(tokensCredentialKey(user.id));
+      if (tokens) {
+        accounts.push({ user, tokens: JSON.parse(tokens) });
+      } else {
+        console.log('No stored credentials for account', user.login);
+      }
     }
-    return AsyncStorage?.getItem(key) ?? null;
-  },
-  async setItem(key: string, value: string): Promise<void> {
-    if (Platform.OS === 'web' && typeof localStorage !== 'undefined') {
-      localStorage.setItem(key, value);
-      return;
+    return { accounts, activeId: saved.activeId, sendId: saved.sendId };
+  }
+
+  const single = await storage.getItem(TOKENS_KEY);
+  const legacy = await storage.getItem(LEGACY_TOKEN_KEY);
+  const tokens: TwitchTokens | null = single ? JSON.parse(single) : legacy ? { accessToken: legacy } : null;
+  if (!tokens) return NO_ACCOUNTS;
+
+  // The old format didn't keep the user, so the token has to work to migrate it
+  const validated = await validateTokens(tokens);
+  if (!validated) return NO_ACCOUNTS;
+  const user = await getUser(validated.accessToken);
+  console.log('Migrated stored token to account', user.login);
+  return { accounts: [{ user, tokens: validated }], activeId: user.id, sendId: null };
+}
+
+async function saveAccounts(stored: StoredAccounts) {
+  for (const account of stored.accounts) {
+    await credentialStore.set(tokensCredentialKey(account.user.id), JSON.stringify(account.tokens));
+  }
+  // Tokens of accounts that were removed
+  const kept = stored.accounts.map(account => tokensCredentialKey(account.user.id));
+  const stale = (await credentialStore.keys()).filter(
+    key => key.startsWith(TOKENS_CREDENTIAL_PREFIX) && !kept.includes(key)
+  );
+  for (const key of stale) {
+    await credentialStore.remove(key);
+  }
+
+  const saved: SavedAccounts = {
+    users: stored.accounts.map(account => account.user),
+    activeId: stored.activeId,
+    sendId: stored.sendId,
+  };
+  await storage.setItem(ACCOUNTS_KEY, JSON.stringify(saved));
+  // Anything left from before tokens moved to the credential store
+  await storage.removeItem(TOKENS_KEY);
+  await storage.removeItem(LEGACY_TOKEN_KEY);
+}
+
+// Logging out forgets every account and every credential, including any we no longer track,
+// along with cached Helix data
+async function clearStoredAccounts() {
+  await credentialStore.clear();
+  await helixCache.clear();
+  await storage.removeItem(ACCOUNTS_KEY);
+  await storage.removeItem(TOKENS_KEY);
+  await storage.removeItem(LEGACY_TOKEN_KEY);
+}
+
+// Validate, refreshing if Twitch rejects the token or it's about to expire, and record what it told us.
+// Resolves null when the session can't be kept alive; throws if Twitch is unreachable.
+async function validateTokens(tokens: TwitchTokens): Promise<TwitchTokens | null> {
+  let current = tokens;
+  let validation = await validateToken(current.accessToken);
+
+  // Expired, revoked or about to expire; a refresh token gets a new one without logging in again
+  const expiringSoon = !!validation && validation.expires_in > 0 && validation.expires_in * 1000 < EXPIRY_WARNING;
+  if ((!validation || expiringSoon) && current.refreshToken) {
+    try {
+      const refreshed = await refreshTokens(current.refreshToken);
+      const refreshedValidation = await validateToken(refreshed.accessToken);
+      if (refreshedValidation) {
+        current = refreshed;
+        validation = refreshedValidation;
+        console.log('Token refreshed');
+      }
+    } catch (error) {
+      console.error('Token refresh failed:', error);
     }
-    await AsyncStorage?.setItem(key, value);
-  },
-  async removeItem(key: string): Promise<void> {
-    if (Platform.OS === 'web' && typeof localStorage !== 'undefined') {
-      localStorage.removeItem(key);
-      return;
+  }
+  if (!validation) return null;
+
+  return {
+    ...current,
+    scopes: validation.scopes,
+    expiresAt: validation.expires_in > 0 ? Date.now() + validation.expires_in * 1000 : undefined,
+  };
+}
+
+// Validate every account; ones Twitch can't be reached for are kept as they are
+async function validateAccounts(accounts: TwitchAccount[]) {
+  const valid: TwitchAccount[] = [];
+  const ended: TwitchAccount[] = [];
+  for (const account of accounts) {
+    try {
+      const tokens = await validateTokens(account.tokens);
+      if (tokens) {
+        valid.push({ ...account, tokens });
+      } else {
+        console.log('Session ended by Twitch:', account.user.login);
+        ended.push(account);
+      }
+    } catch (error) {
+      console.error('Token validation error:', error);
+      valid.push(account);
     }
-    await AsyncStorage?.removeItem(key);
-  },
-};
+  }
+  return { valid, ended };
+}
+
+const findAccount = (stored: StoredAccounts, userId: string | null) =>
+  stored.accounts.find(account => account.user.id === userId);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [state, setState] = useState<AuthState>({
-    accessToken: null,
-    user: null,
-    isLoading: true,
-  });
+  const [state, setState] = useState<AuthState>({ ...LOGGED_OUT, isLoading: true });
+  const storedRef = useRef<StoredAccounts>(NO_ACCOUNTS);
+  const lastValidatedRef = useRef(0);
+  const checkTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const checkingRef = useRef<Promise<void> | null>(null);
 
   useEffect(() => {
     // Immediate fallback - never stay loading more than 1 second
@@ -63,9 +208,124 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
     loadStoredAuth();
 
-    return () => clearTimeout(fallback);
+    const subscription = AppState.addEventListener('change', status => {
+      if (status === 'active' && Date.now() - lastValidatedRef.current > MIN_FOREGROUND_INTERVAL) {
+        checkSession();
+      }
+    });
+
+    // A 401 from Helix means a token was revoked or expired early; find out which and refresh or end it.
+    // Missing scopes also answer 401, so don't re-validate on every request that needs one.
+    helix.setUnauthorizedHandler(() => {
+      if (Date.now() - lastValidatedRef.current > MIN_UNAUTHORIZED_INTERVAL) {
+        checkSession();
+      }
+    });
+
+    return () => {
+      clearTimeout(fallback);
+      subscription.remove();
+      helix.setUnauthorizedHandler(null);
+      if (checkTimerRef.current) clearTimeout(checkTimerRef.current);
+    };
   }, []);
 
+  // Missing scopes win over an expiry warning: re-consenting fixes both
+  const getNotice = (tokens: TwitchTokens): AuthState['notice'] => {
+    const missing = AUTH_SCOPES.filter(scope => !tokens.scopes?.includes(scope));
+    if (tokens.scopes && missing.length > 0) return { type: 'missing-scopes', scopes: missing };
+    if (tokens.expiresAt && !tokens.refreshToken && tokens.expiresAt - Date.now() < EXPIRY_WARNING) {
+      return { type: 'expiring', expiresAt: tokens.expiresAt };
+    }
+    return null;
+  };
+
+  // Next check is hourly, or just before the first expiry warning is due if that's sooner
+  const scheduleCheck = (accounts: TwitchAccount[]) => {
+    if (checkTimerRef.current) clearTimeout(checkTimerRef.current);
+    let delay = VALIDATE_INTERVAL;
+    accounts.forEach(({ tokens }) => {
+      if (!tokens.expiresAt) return;
+      const untilWarning = tokens.expiresAt - EXPIRY_WARNING - Date.now();
+      if (untilWarning > 0) delay = Math.min(delay, untilWarning);
+    });
+    checkTimerRef.current = setTimeout(checkSession, delay);
+  };
+
+  // Save and publish the accounts; the notice defaults to the active account's
+  const applyAccounts = async (stored: StoredAccounts, notice?: AuthNotice | null) => {
+    const active = findAccount(stored, stored.activeId) ?? stored.accounts[0];
+    if (!active) {
+      await clearSession(notice ?? null);
+      return;
+    }
+    const sender = stored.sendId !== active.user.id ? findAccount(stored, stored.sendId) : undefined;
+    const next: StoredAccounts = {
+      accounts: stored.accounts,
+      activeId: active.user.id,
+      sendId: sender ? sender.user.id : null,
+    };
+    storedRef.current = next;
+    await saveAccounts(next);
+    setState({
+      accessToken: active.tokens.accessToken,
+      user: active.user,
+      isLoading: false,
+      scopes: active.tokens.scopes ?? [],
+      expiresAt: active.tokens.expiresAt ?? null,
+      notice: notice !== undefined ? notice : getNotice(active.tokens),
+      accounts: next.accounts.map(account => account.user),
+      sendAccount: sender ? { accessToken: sender.tokens.accessToken, user: sender.user } : null,
+    });
+  };
+
+  const clearSession = async (notice: AuthNotice | null) => {
+    storedRef.current = NO_ACCOUNTS;
+    if (checkTimerRef.current) clearTimeout(checkTimerRef.current);
+    await clearStoredAccounts();
+    chatManager.reset();
+    setState({ ...LOGGED_OUT, notice });
+  };
+
+  // Concurrent callers share one check
+  const checkSession = () => {
+    if (!checkingRef.current) {
+      checkingRef.current = runCheck().finally(() => {
+        checkingRef.current = null;
+      });
+    }
+    return checkingRef.current;
+  };
+
+  const runCheck = async () => {
+    const checked = storedRef.current;
+    if (checked.accounts.length === 0) return;
+
+    const { valid, ended } = await validateAccounts(checked.accounts);
+    lastValidatedRef.current = Date.now();
+
+    // Accounts may have been added, removed or logged in again while we were waiting;
+    // only apply results to accounts whose tokens are still the ones we checked
+    const checkedTokens = new Map(checked.accounts.map(account => [account.user.id, account.tokens]));
+    const isUnchanged = (account: TwitchAccount) => checkedTokens.get(account.user.id) === account.tokens;
+    const endedIds = new Set(ended.map(account => account.user.id));
+    const validById = new Map(valid.map(account => [account.user.id, account]));
+    const latest = storedRef.current;
+    const accounts = latest.accounts
+      .filter(account => !(endedIds.has(account.user.id) && isUnchanged(account)))
+      .map(account => (isUnchanged(account) ? validById.get(account.user.id) ?? account : account));
+    const endedNow = latest.accounts.filter(account => endedIds.has(account.user.id) && isUnchanged(account));
+
+    scheduleCheck(accounts);
+    if (endedNow.length === 0) {
+      await applyAccounts({ ...latest, accounts });
+    } else if (accounts.length === 0) {
+      await clearSession({ type: 'ended' });
+    } else {
+      await applyAccounts({ ...latest, accounts }, { type: 'ended', login: endedNow[0].user.login });
+    }
+  };
+
   const loadStoredAuth = async () => {
     // Set a timeout to ensure we don't get stuck loading
     const timeout = setTimeout(() => {
@@ -74,24 +334,21 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }, 2000);
 
     try {
-      const storedToken = await storage.getItem(TOKEN_KEY);
-      console.log('Stored token:', storedToken ? 'found' : 'none');
-      if (storedToken) {
-        const isValid = await validateToken(storedToken);
-        console.log('Token valid:', isValid);
-        if (isValid) {
-          const user = await getUser(storedToken);
-          clearTimeout(timeout);
-          setState({
-            accessToken: storedToken,
-            user,
-            isLoading: false,
-          });
-          return;
+      const stored = await readStoredAccounts();
+      console.log('Stored accounts:', stored.accounts.length);
+      const { valid } = await validateAccounts(stored.accounts);
+      console.log('Valid accounts:', valid.length);
+      clearTimeout(timeout);
+      if (valid.length === 0) {
+        if (stored.accounts.length > 0) {
+          await clearStoredAccounts();
         }
+        setState(prev => ({ ...prev, isLoading: false }));
+        return;
       }
-      clearTimeout(timeout);
-      setState(prev => ({ ...prev, isLoading: false }));
+      lastValidatedRef.current = Date.now();
+      scheduleCheck(valid);
+      await applyAccounts({ ...stored, accounts: valid });
     } catch (error) {
       console.error('Failed to load stored auth:', error);
       clearTimeout(timeout);
@@ -99,19 +356,21 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const login = async (token: string) => {
+  const login = async (tokens: TwitchTokens) => {
     try {
-      const isValid = await validateToken(token);
-      if (!isValid) {
+      const validated = await validateTokens(tokens);
+      if (!validated) {
         throw new Error('Invalid token');
       }
-      const user = await getUser(token);
-      await storage.setItem(TOKEN_KEY, token);
-      setState({
-        accessToken: token,
-        user,
-        isLoading: false,
-      });
+      const user = await getUser(validated.accessToken);
+      const account: TwitchAccount = { user, tokens: validated };
+      const current = storedRef.current;
+      const accounts = current.accounts.some(a => a.user.id === user.id)
+        ? current.accounts.map(a => (a.user.id === user.id ? account : a))
+        : [...current.accounts, account];
+      lastValidatedRef.current = Date.now();
+      scheduleCheck(accounts);
+      await applyAccounts({ ...current, accounts, activeId: user.id });
     } catch (error) {
       console.error('Login failed:', error);
       throw error;
@@ -119,21 +378,62 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const logout = async () => {
-    await storage.removeItem(TOKEN_KEY);
-    setState({
-      accessToken: null,
-      user: null,
-      isLoading: false,
-    });
+    await clearSession(null);
+  };
+
+  const switchAccount = (userId: string) => {
+    const current = storedRef.current;
+    if (!findAccount(current, userId)) return;
+    applyAccounts({ ...current, activeId: userId });
+  };
+
+  const setSendAccount = (userId: string | null) => {
+    applyAccounts({ ...storedRef.current, sendId: userId });
+  };
+
+  const removeAccount = async (userId: string) => {
+    const current = storedRef.current;
+    const accounts = current.accounts.filter(account => account.user.id !== userId);
+    await applyAccounts({ ...current, accounts });
+  };
+
+  const dismissNotice = () => {
+    setState(prev => ({ ...prev, notice: null }));
   };
 
   return (
-    <AuthContext.Provider value={{ ...state, login, logout }}>
+    <AuthContext.Provider
+      value={{
+        ...state,
+        login,
+        logout,
+        switchAccount,
+        setSendAccount,
+        removeAccount,
+        checkSession,
+        dismissNotice,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
 }
 
+export function describeAuthNotice(notice: AuthNotice): string {
+  switch (notice.type) {
+    case 'expiring': {
+      const minutes = Math.max(1, Math.round((notice.expiresAt - Date.now()) / 60000));
+      return `Your Twitch login expires in ${minutes} min. Tap to log in again.`;
+    }
+    case 'missing-scopes':
+      return 'New features need extra Twitch permissions. Tap to allow them.';
+    case 'ended':
+      return notice.login
+        ? `Twitch ended the session for ${notice.login}. Add the account again to keep using it.`
+        : 'Your Twitch session has ended. Please log in again.';
+  }
+}
+
 export function useAuth() {
   const context = useContext(AuthContext);
   if (context === undefined) {
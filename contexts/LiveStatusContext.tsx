@@ -0,0 +1,174 @@
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { LiveChange } from '../types/twitch';
+import { livePoller, describeLiveChange } from '../services/livePoller';
+import { ttsQueue } from '../services/ttsQueue';
+import { showNotification, onNotificationTap } from '../services/localNotifications';
+import { NotificationSettings } from '../services/settingsStore';
+import { useAuth } from './AuthContext';
+import { useSettings } from './SettingsContext';
+
+interface LiveStatusContextType {
+  // Bumped after every poll, so lists can re-read the cached streams
+  lastPolledAt: number | null;
+}
+
+interface LiveToast {
+  id: string;
+  change: LiveChange;
+}
+
+const LiveStatusContext = createContext<LiveStatusContextType | undefined>(undefined);
+
+const MAX_TOASTS = 3;
+const TOAST_DURATION_MS = 6000;
+
+function shouldAnnounce(change: LiveChange, settings: NotificationSettings): boolean {
+  if (!settings.channels.includes(change.login.toLowerCase())) return false;
+  if (change.type === 'offline') return settings.announceOffline;
+  if (change.type === 'game' || change.type === 'title') return settings.announceChanges;
+  return true;
+}
+
+export function LiveStatusProvider({ children }: { children: ReactNode }) {
+  const router = useRouter();
+  const { accessToken, user } = useAuth();
+  const { settings } = useSettings();
+  const [lastPolledAt, setLastPolledAt] = useState<number | null>(null);
+  const [toasts, setToasts] = useState<LiveToast[]>([]);
+  // The poller's listener outlives renders, so it reads the latest settings from here
+  const notificationsRef = useRef(settings.notifications);
+  notificationsRef.current = settings.notifications;
+  const toastTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const enabled = settings.notifications.enabled;
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!accessToken || !userId || !enabled) {
+      livePoller.stop();
+      return;
+    }
+    livePoller.start(accessToken, userId);
+  }, [accessToken, userId, enabled]);
+
+  useEffect(() => {
+    return () => livePoller.stop();
+  }, []);
+
+  const dismissToast = (id: string) => {
+    const timer = toastTimersRef.current.get(id);
+    if (timer) clearTimeout(timer);
+    toastTimersRef.current.delete(id);
+    setToasts(prev => prev.filter(toast => toast.id !== id));
+  };
+
+  const showToast = (change: LiveChange) => {
+    const id = `${change.userId}-${change.type}-${Date.now()}`;
+    setToasts(prev => [...prev, { id, change }].slice(-MAX_TOASTS));
+    toastTimersRef.current.set(id, setTimeout(() => dismissToast(id), TOAST_DURATION_MS));
+  };
+
+  const announce = (change: LiveChange) => {
+    const notifications = notificationsRef.current;
+    const text = describeLiveChange(change);
+    if (notifications.toasts) showToast(change);
+    if (notifications.speak) {
+      ttsQueue.enqueue({ id: `live-${change.userId}-${Date.now()}`, text, priority: 'mention' });
+    }
+    if (notifications.native) {
+      showNotification(change.displayName, text, { login: change.login });
+    }
+  };
+
+  useEffect(() => {
+    const unsubscribe = livePoller.subscribe(changes => {
+      setLastPolledAt(Date.now());
+      if (changes.length === 0) return;
+      changes
+        .filter(change => shouldAnnounce(change, notificationsRef.current))
+        .forEach(announce);
+    });
+    const removeTapListener = onNotificationTap(data => {
+      if (typeof data.login === 'string') router.push(`/stream/${data.login}`);
+    });
+    const timers = toastTimersRef.current;
+    return () => {
+      unsubscribe();
+      removeTapListener();
+      timers.forEach(timer => clearTimeout(timer));
+    };
+  }, []);
+
+  const openToast = (toast: LiveToast) => {
+    dismissToast(toast.id);
+    if (toast.change.type !== 'offline') router.push(`/stream/${toast.change.login}`);
+  };
+
+  return (
+    <LiveStatusContext.Provider value={{ lastPolledAt }}>
+      <View style={styles.container}>
+        {children}
+        {toasts.length > 0 && (
+          <View style={styles.toastStack} pointerEvents="box-none">
+            {toasts.map(toast => (
+              <TouchableOpacity key={toast.id} style={styles.toast} onPress={() => openToast(toast)}>
+                <Ionicons
+                  name={toast.change.type === 'offline' ? 'moon-outline' : 'radio'}
+                  size={18}
+                  color={toast.change.type === 'offline' ? '#adadb8' : '#eb0400'}
+                />
+                <Text style={styles.toastText} numberOfLines={2}>{describeLiveChange(toast.change)}</Text>
+                <TouchableOpacity onPress={() => dismissToast(toast.id)}>
+                  <Ionicons name="close" size={16} color="#adadb8" />
+                </TouchableOpacity>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </View>
+    </LiveStatusContext.Provider>
+  );
+}
+
+export function useLiveStatus() {
+  const context = useContext(LiveStatusContext);
+  if (context === undefined) {
+    throw new Error('useLiveStatus must be used within a LiveStatusProvider');
+  }
+  return context;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  toastStack: {
+    position: 'absolute',
+    top: 48,
+    left: 12,
+    right: 12,
+    alignItems: 'center',
+    gap: 8,
+  },
+  toast: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    width: '100%',
+    maxWidth: 420,
+    backgroundColor: '#18181b',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#3d3d3d',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  toastText: {
+    flex: 1,
+    color: '#efeff1',
+    fontSize: 14,
+  },
+});
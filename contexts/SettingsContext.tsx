@@ -0,0 +1,110 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import {
+  settingsStore,
+  resolveChannelSettings,
+  AppSettings,
+  ChannelProfile,
+  ProfileSection,
+  SettingsSection,
+  PROFILE_SECTIONS,
+} from '../services/settingsStore';
+
+type UpdateSettings = <K extends SettingsSection>(section: K, changes: Partial<AppSettings[K]>) => void;
+
+interface SettingsContextType {
+  settings: AppSettings;
+  isLoaded: boolean;
+  updateSettings: UpdateSettings;
+  updateChannelProfile: <K extends ProfileSection>(channel: string, section: K, changes: Partial<AppSettings[K]>) => void;
+  createChannelProfile: (channel: string) => void;
+  removeChannelProfile: (channel: string) => void;
+  replaceSettings: (raw: unknown) => void;
+  resetSettings: () => void;
+}
+
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+export function SettingsProvider({ children }: { children: ReactNode }) {
+  const [settings, setSettings] = useState<AppSettings>(settingsStore.get());
+  const [isLoaded, setIsLoaded] = useState(settingsStore.isLoaded());
+
+  useEffect(() => {
+    const unsubscribe = settingsStore.subscribe(setSettings);
+    settingsStore.load().then(() => {
+      // Read back from the store, which may have changed since loading
+      setSettings(settingsStore.get());
+      setIsLoaded(true);
+    });
+    return unsubscribe;
+  }, []);
+
+  const updateSettings: UpdateSettings = (section, changes) => {
+    settingsStore.update(section, changes);
+  };
+
+  const updateChannelProfile = <K extends ProfileSection>(channel: string, section: K, changes: Partial<AppSettings[K]>) => {
+    settingsStore.updateChannelProfile(channel, section, changes);
+  };
+
+  const createChannelProfile = (channel: string) => {
+    settingsStore.createChannelProfile(channel);
+  };
+
+  const removeChannelProfile = (channel: string) => {
+    settingsStore.removeChannelProfile(channel);
+  };
+
+  const replaceSettings = (raw: unknown) => {
+    settingsStore.set(raw);
+  };
+
+  const resetSettings = () => {
+    settingsStore.reset();
+  };
+
+  return (
+    <SettingsContext.Provider
+      value={{
+        settings,
+        isLoaded,
+        updateSettings,
+        updateChannelProfile,
+        createChannelProfile,
+        removeChannelProfile,
+        replaceSettings,
+        resetSettings,
+      }}
+    >
+      {children}
+    </SettingsContext.Provider>
+  );
+}
+
+export function useSettings() {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+  return context;
+}
+
+// Settings as they apply on one channel. While the channel has a profile, changes to the
+// sections a profile covers are saved to the profile instead of the global settings.
+export function useChannelSettings(channel: string | undefined) {
+  const { settings, updateSettings, updateChannelProfile } = useSettings();
+  const profile: ChannelProfile | undefined = channel ? settings.channelProfiles[channel.toLowerCase()] : undefined;
+
+  const updateChannelSettings: UpdateSettings = (section, changes) => {
+    if (channel && profile && (PROFILE_SECTIONS as string[]).includes(section)) {
+      updateChannelProfile(channel, section as ProfileSection, changes);
+    } else {
+      updateSettings(section, changes);
+    }
+  };
+
+  return {
+    settings: resolveChannelSettings(settings, channel),
+    profile,
+    updateSettings: updateChannelSettings,
+  };
+}
@@ -0,0 +1,56 @@
+import { ChatBadge, TwitchBadgeSet } from '../types/twitch';
+import { getGlobalBadges, getChannelBadges } from './twitchApi';
+
+export interface BadgeImage {
+  url: string;
+  title: string;
+}
+
+// Keyed by "set_id/version", e.g. "subscriber/12"
+export type BadgeIndex = Map<string, BadgeImage>;
+
+let globalBadges: Promise<TwitchBadgeSet[]> | null = null;
+const channelBadges = new Map<string, Promise<TwitchBadgeSet[]>>();
+
+// Channel sets (custom sub badges, bits) override the global ones
+export async function loadBadgeIndex(token: string, channelId: string): Promise<BadgeIndex> {
+  if (!globalBadges) {
+    globalBadges = getGlobalBadges(token).catch(error => {
+      globalBadges = null;
+      throw error;
+    });
+  }
+  let channelSets = channelBadges.get(channelId);
+  if (!channelSets) {
+    channelSets = getChannelBadges(token, channelId).catch(error => {
+      channelBadges.delete(channelId);
+      throw error;
+    });
+    channelBadges.set(channelId, channelSets);
+  }
+
+  const index: BadgeIndex = new Map();
+  const results = await Promise.allSettled([globalBadges, channelSets]);
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      console.error('Failed to load badges:', result.reason);
+      continue;
+    }
+    for (const set of result.value) {
+      for (const version of set.versions) {
+        index.set(`${set.set_id}/${version.id}`, {
+          url: version.image_url_1x,
+          title: version.title,
+        });
+      }
+    }
+  }
+  return index;
+}
+
+export function resolveBadges(badges: ChatBadge[] | undefined, index: BadgeIndex | null): BadgeImage[] {
+  if (!badges || !index) return [];
+  return badges
+    .map(badge => index.get(`${badge.id}/${badge.version}`))
+    .filter((badge): badge is BadgeImage => !!badge);
+}
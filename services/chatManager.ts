@@ -0,0 +1,251 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { ChatMessage, ChatEvent, IrcConnectionState, RoomState } from '../types/twitch';
+import { TwitchIRC } from './twitchIRC';
+
+export interface ChannelSubscriber {
+  onMessage?: (message: ChatMessage) => void;
+  onEvent?: (event: ChatEvent) => void;
+  onJoinChange?: (joined: boolean) => void;
+  onStateChange?: (state: IrcConnectionState) => void;
+}
+
+const MAX_RECENT_MESSAGES = 200;
+
+// Keep a channel joined for a while after its last subscriber leaves, so
+// navigating away and back doesn't drop the chat history
+const PART_GRACE_MS = 60000;
+
+interface ChannelEntry {
+  subscribers: Set<ChannelSubscriber>;
+  recentMessages: ChatMessage[];
+  partTimer: ReturnType<typeof setTimeout> | null;
+}
+
+export interface ChatIdentity {
+  token: string;
+  username: string;
+}
+
+const identityKey = (identity: ChatIdentity) => `${identity.username.toLowerCase()}:${identity.token}`;
+
+// Shares one authenticated IRC socket between every screen that shows chat, plus a
+// second one when messages are sent as a different account than the one reading
+class ChatManager {
+  private irc: TwitchIRC | null = null;
+  private identity: string | null = null;
+  private sender: TwitchIRC | null = null;
+  private senderIdentity: string | null = null;
+  private channels = new Map<string, ChannelEntry>();
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  // Point the shared socket at an account, and optionally send as another one;
+  // reconnects only what changed
+  configure(token: string, username: string, sendAs?: ChatIdentity | null) {
+    this.configureSender(sendAs && sendAs.username.toLowerCase() !== username.toLowerCase() ? sendAs : null);
+
+    const identity = identityKey({ token, username });
+    if (this.identity === identity && this.irc) return;
+
+    this.irc?.disconnect();
+    this.identity = identity;
+    this.irc = new TwitchIRC(token, username);
+    this.channels.forEach((_, channel) => this.irc?.join(channel));
+    this.irc.setForeground(AppState.currentState !== 'background');
+    this.irc.connect({
+      onMessage: message => this.dispatchMessage(message),
+      onEvent: event => this.dispatchEvent(event),
+      onChannelJoinChange: (channel, joined) => {
+        this.channels.get(channel)?.subscribers.forEach(s => s.onJoinChange?.(joined));
+      },
+      onStateChange: state => {
+        this.channels.forEach(entry => entry.subscribers.forEach(s => s.onStateChange?.(state)));
+      },
+    });
+
+    if (!this.appStateSubscription) {
+      this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+    }
+  }
+
+  // The sending socket joins the same channels but only reports on our own messages;
+  // everything else, including what it sends, reaches us through the reading socket
+  private configureSender(sendAs: ChatIdentity | null) {
+    const identity = sendAs ? identityKey(sendAs) : null;
+    if (this.senderIdentity === identity) return;
+
+    this.sender?.disconnect();
+    this.sender = null;
+    this.senderIdentity = identity;
+    if (!sendAs) return;
+
+    this.sender = new TwitchIRC(sendAs.token, sendAs.username);
+    this.channels.forEach((_, channel) => this.sender?.join(channel));
+    this.sender.setForeground(AppState.currentState !== 'background');
+    this.sender.connect({
+      onMessage: message => this.dispatchMessage(message),
+      onEvent: event => {
+        if (event.type === 'sendstatus' || (event.type === 'notice' && event.channel)) {
+          this.dispatchEvent(event);
+        }
+      },
+      onStateChange: state => {
+        if (state === 'auth-failed') console.error('Sending account failed to authenticate');
+      },
+    });
+  }
+
+  private handleAppStateChange = (status: AppStateStatus) => {
+    this.irc?.setForeground(status !== 'background');
+    this.sender?.setForeground(status !== 'background');
+  };
+
+  // Drop the socket and every channel, e.g. on logout
+  reset() {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.irc?.disconnect();
+    this.irc = null;
+    this.identity = null;
+    this.sender?.disconnect();
+    this.sender = null;
+    this.senderIdentity = null;
+    this.channels.forEach(entry => {
+      if (entry.partTimer) clearTimeout(entry.partTimer);
+    });
+    this.channels.clear();
+  }
+
+  subscribe(channel: string, subscriber: ChannelSubscriber): () => void {
+    const name = channel.toLowerCase();
+    let entry = this.channels.get(name);
+    if (!entry) {
+      entry = { subscribers: new Set(), recentMessages: [], partTimer: null };
+      this.channels.set(name, entry);
+    }
+    if (entry.partTimer) {
+      clearTimeout(entry.partTimer);
+      entry.partTimer = null;
+    }
+    entry.subscribers.add(subscriber);
+    this.irc?.join(name);
+    this.sender?.join(name);
+
+    const subscribed = entry;
+    return () => {
+      subscribed.subscribers.delete(subscriber);
+      if (subscribed.subscribers.size > 0 || subscribed.partTimer) return;
+      subscribed.partTimer = setTimeout(() => {
+        subscribed.partTimer = null;
+        if (subscribed.subscribers.size > 0) return;
+        this.channels.delete(name);
+        this.irc?.part(name);
+        this.sender?.part(name);
+      }, PART_GRACE_MS);
+    };
+  }
+
+  getRecentMessages(channel: string): ChatMessage[] {
+    return this.channels.get(channel.toLowerCase())?.recentMessages ?? [];
+  }
+
+  getJoinedChannels(): string[] {
+    return [...this.channels.keys()].filter(channel => this.isJoined(channel));
+  }
+
+  getConnectionState(): IrcConnectionState {
+    return this.irc?.getState() ?? 'idle';
+  }
+
+  reconnect() {
+    this.irc?.reconnect();
+  }
+
+  isJoined(channel: string): boolean {
+    return this.irc?.isJoined(channel) ?? false;
+  }
+
+  getRoomState(channel: string): RoomState | undefined {
+    return this.irc?.getRoomState(channel);
+  }
+
+  getRoomId(channel: string): string | undefined {
+    return this.irc?.getRoomId(channel);
+  }
+
+  // Login our messages go out as
+  getSendUsername(): string | null {
+    return (this.sender ?? this.irc)?.getUsername() ?? null;
+  }
+
+  sendMessage(channel: string, message: string): string | null {
+    return (this.sender ?? this.irc)?.sendMessage(channel, message) ?? null;
+  }
+
+  private dispatchMessage(message: ChatMessage) {
+    const entry = message.channel ? this.channels.get(message.channel) : undefined;
+    if (!entry) return;
+    // The reading socket sees what the sending one sent, which is already echoed locally;
+    // tag the echo with the real id so a later identical message isn't mistaken for it
+    const echoIndex = message.sendStatus ? -1 : entry.recentMessages.findIndex(m => isEchoOf(m, message));
+    if (echoIndex !== -1) {
+      entry.recentMessages = entry.recentMessages.map((m, i) =>
+        i === echoIndex ? { ...m, messageId: message.messageId } : m
+      );
+      return;
+    }
+    entry.recentMessages = [...entry.recentMessages.slice(-(MAX_RECENT_MESSAGES - 1)), message];
+    entry.subscribers.forEach(s => s.onMessage?.(message));
+  }
+
+  private dispatchEvent(event: ChatEvent) {
+    // Server-wide events go to everyone
+    const channel = event.type === 'reconnect' ? undefined : event.channel;
+    if (!channel) {
+      this.channels.forEach(entry => entry.subscribers.forEach(s => s.onEvent?.(event)));
+      return;
+    }
+
+    const entry = this.channels.get(channel);
+    if (!entry) return;
+
+    // Keep the history in line with what moderators removed
+    if (event.type === 'clearmsg') {
+      entry.recentMessages = entry.recentMessages.filter(m => m.messageId !== event.targetMessageId);
+    } else if (event.type === 'clearchat') {
+      entry.recentMessages = event.targetLogin || event.targetUserId
+        ? entry.recentMessages.filter(m =>
+            !(event.targetUserId && m.userId === event.targetUserId) &&
+            !(event.targetLogin && m.login === event.targetLogin)
+          )
+        : [];
+    } else if (event.type === 'sendstatus') {
+      entry.recentMessages = entry.recentMessages.map(m =>
+        m.id === event.localId ? applySendStatus(m, event) : m
+      );
+    } else if (event.type === 'usernotice' && event.message) {
+      entry.recentMessages = [...entry.recentMessages.slice(-(MAX_RECENT_MESSAGES - 1)), event.message];
+    }
+
+    entry.subscribers.forEach(s => s.onEvent?.(event));
+  }
+}
+
+function isEchoOf(echo: ChatMessage, message: ChatMessage): boolean {
+  if (!echo.sendStatus || echo.sendStatus === 'failed' || echo.login !== message.login) return false;
+  if (echo.messageId) return echo.messageId === message.messageId;
+  return echo.message === message.message;
+}
+
+export function applySendStatus(
+  message: ChatMessage,
+  update: Extract<ChatEvent, { type: 'sendstatus' }>
+): ChatMessage {
+  return {
+    ...message,
+    sendStatus: update.status,
+    sendError: update.reason,
+    messageId: update.messageId ?? message.messageId,
+  };
+}
+
+export const chatManager = new ChatManager();
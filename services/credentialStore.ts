@@ -0,0 +1,108 @@
+import { Platform } from 'react-native';
+import { storage } from './storage';
+
+// Only import SecureStore for native platforms; browsers have no keychain
+let SecureStore: typeof import('expo-secure-store') | null = null;
+if (Platform.OS !== 'web') {
+  SecureStore = require('expo-secure-store');
+}
+
+// Somewhere to keep secrets. Keys may only use letters, digits, ".", "-" and "_",
+// since that's all the iOS keychain and Android keystore accept.
+export interface CredentialBackend {
+  name: string;
+  // Whether values are encrypted at rest
+  isSecure: boolean;
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export const secureStoreBackend: CredentialBackend = {
+  name: 'keychain',
+  isSecure: true,
+  async getItem(key) {
+    return SecureStore ? SecureStore.getItemAsync(key) : null;
+  },
+  async setItem(key, value) {
+    if (!SecureStore) throw new Error('Failed to save credential: secure storage is unavailable');
+    await SecureStore.setItemAsync(key, value);
+  },
+  async removeItem(key) {
+    await SecureStore?.deleteItemAsync(key);
+  },
+};
+
+// Web fallback: plain localStorage, readable by any script running on the page.
+// Good enough for a first-party build with no third-party scripts, but not encrypted.
+export const webStorageBackend: CredentialBackend = {
+  name: 'localStorage',
+  isSecure: false,
+  getItem: key => storage.getItem(`@credentials/${key}`),
+  setItem: (key, value) => storage.setItem(`@credentials/${key}`, value),
+  removeItem: key => storage.removeItem(`@credentials/${key}`),
+};
+
+// Neither keychains nor localStorage can list their keys, so keep our own list for clear()
+const INDEX_KEY = 'credentials.index';
+
+class CredentialStore {
+  private backend: CredentialBackend;
+  // Serializes index updates so concurrent writes don't drop keys
+  private indexQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(backend: CredentialBackend) {
+    this.backend = backend;
+  }
+
+  // Swap the backend, e.g. for a platform with its own secret storage
+  setBackend(backend: CredentialBackend) {
+    this.backend = backend;
+  }
+
+  isSecure(): boolean {
+    return this.backend.isSecure;
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.backend.getItem(key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.backend.setItem(key, value);
+    await this.updateIndex(keys => (keys.includes(key) ? keys : [...keys, key]));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.backend.removeItem(key);
+    await this.updateIndex(keys => keys.filter(k => k !== key));
+  }
+
+  async keys(): Promise<string[]> {
+    const index = await this.backend.getItem(INDEX_KEY);
+    return index ? JSON.parse(index) : [];
+  }
+
+  // Wipe every credential we've stored
+  async clear(): Promise<void> {
+    const keys = await this.keys();
+    await Promise.all(keys.map(key => this.backend.removeItem(key)));
+    await this.backend.removeItem(INDEX_KEY);
+    console.log(`Cleared ${keys.length} stored credentials`);
+  }
+
+  private updateIndex(change: (keys: string[]) => string[]): Promise<void> {
+    const update = this.indexQueue.then(async () => {
+      const keys = await this.keys();
+      const next = change(keys);
+      if (next.length === keys.length && next.every((k, i) => k === keys[i])) return;
+      await this.backend.setItem(INDEX_KEY, JSON.stringify(next));
+    });
+    this.indexQueue = update.catch(() => {});
+    return update;
+  }
+}
+
+export const credentialStore = new CredentialStore(
+  Platform.OS === 'web' ? webStorageBackend : secureStoreBackend
+);
@@ -0,0 +1,206 @@
+import { Emote, EmoteProviderName } from '../types/twitch';
+
+export interface EmoteProvider {
+  name: EmoteProviderName;
+  fetchGlobal(): Promise<Emote[]>;
+  fetchChannel(channelId: string): Promise<Emote[]>;
+}
+
+export interface EmoteProviderUrls {
+  twitchCdn: string;
+  bttvApi: string;
+  bttvCdn: string;
+  ffzApi: string;
+  sevenTvApi: string;
+}
+
+const DEFAULT_URLS: EmoteProviderUrls = {
+  twitchCdn: 'https://static-cdn.jtvnw.net/emoticons/v2',
+  bttvApi: 'https://api.betterttv.net/3',
+  bttvCdn: 'https://cdn.betterttv.net/emote',
+  ffzApi: 'https://api.frankerfacez.com/v1',
+  sevenTvApi: 'https://7tv.io/v3',
+};
+
+// Point every provider at a local fixture server, e.g. EXPO_PUBLIC_EMOTE_FIXTURE_URL=http://localhost:4000
+// serves /twitch, /bttv, /bttv-cdn, /ffz and /7tv with the same paths as the real APIs
+function fixtureUrls(base: string): EmoteProviderUrls {
+  const root = base.replace(/\/$/, '');
+  return {
+    twitchCdn: `${root}/twitch`,
+    bttvApi: `${root}/bttv`,
+    bttvCdn: `${root}/bttv-cdn`,
+    ffzApi: `${root}/ffz`,
+    sevenTvApi: `${root}/7tv`,
+  };
+}
+
+let urls: EmoteProviderUrls = process.env.EXPO_PUBLIC_EMOTE_FIXTURE_URL
+  ? fixtureUrls(process.env.EXPO_PUBLIC_EMOTE_FIXTURE_URL)
+  : DEFAULT_URLS;
+
+export function setEmoteProviderUrls(overrides: Partial<EmoteProviderUrls>) {
+  urls = { ...urls, ...overrides };
+}
+
+export function getTwitchEmoteUrl(id: string): string {
+  return `${urls.twitchCdn}/${id}/default/dark/1.0`;
+}
+
+// The parts of each provider's API responses that we read
+interface BttvEmote {
+  id: string;
+  code: string;
+}
+
+interface BttvUser {
+  channelEmotes?: BttvEmote[];
+  sharedEmotes?: BttvEmote[];
+}
+
+interface FfzEmote {
+  id: number;
+  name: string;
+  width?: number;
+  height?: number;
+  urls?: Record<string, string>;
+}
+
+interface FfzSet {
+  emoticons?: FfzEmote[];
+}
+
+interface FfzSets {
+  default_sets?: number[];
+  sets?: Record<string, FfzSet>;
+}
+
+interface SevenTvFile {
+  name: string;
+  width?: number;
+  height?: number;
+}
+
+interface SevenTvEmote {
+  id: string;
+  name: string;
+  flags?: number;
+  data?: {
+    host?: {
+      url?: string;
+      files?: SevenTvFile[];
+    };
+  };
+}
+
+interface SevenTvEmoteSet {
+  emotes?: SevenTvEmote[];
+}
+
+interface SevenTvUser {
+  emote_set?: SevenTvEmoteSet | null;
+}
+
+async function fetchJson<T>(url: string, provider: string): Promise<T | null> {
+  const response = await fetch(url);
+  // Channels without an account on the provider answer 404
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${provider} emotes`);
+  }
+  return response.json();
+}
+
+const bttvProvider: EmoteProvider = {
+  name: 'bttv',
+  async fetchGlobal() {
+    const data = await fetchJson<BttvEmote[]>(`${urls.bttvApi}/cached/emotes/global`, 'BTTV');
+    return (data ?? []).map(toBttvEmote);
+  },
+  async fetchChannel(channelId) {
+    const data = await fetchJson<BttvUser>(`${urls.bttvApi}/cached/users/twitch/${channelId}`, 'BTTV');
+    if (!data) return [];
+    return [...(data.channelEmotes ?? []), ...(data.sharedEmotes ?? [])].map(toBttvEmote);
+  },
+};
+
+function toBttvEmote(raw: BttvEmote): Emote {
+  return {
+    id: raw.id,
+    name: raw.code,
+    url: `${urls.bttvCdn}/${raw.id}/1x`,
+    provider: 'bttv',
+  };
+}
+
+const ffzProvider: EmoteProvider = {
+  name: 'ffz',
+  async fetchGlobal() {
+    const data = await fetchJson<FfzSets>(`${urls.ffzApi}/set/global`, 'FFZ');
+    if (!data) return [];
+    const setIds = data.default_sets?.map(String) ?? Object.keys(data.sets ?? {});
+    return setIds.flatMap(id => toFfzEmotes(data.sets?.[id]));
+  },
+  async fetchChannel(channelId) {
+    const data = await fetchJson<FfzSets>(`${urls.ffzApi}/room/id/${channelId}`, 'FFZ');
+    if (!data) return [];
+    return Object.values(data.sets ?? {}).flatMap(toFfzEmotes);
+  },
+};
+
+function toFfzEmotes(set: FfzSet | undefined): Emote[] {
+  return (set?.emoticons ?? []).map(raw => ({
+    id: String(raw.id),
+    name: raw.name,
+    url: raw.urls?.['1'] ?? '',
+    provider: 'ffz' as const,
+    width: raw.width,
+    height: raw.height,
+  }));
+}
+
+// 7TV emote flag for zero-width emotes
+const SEVEN_TV_ZERO_WIDTH = 1;
+
+const sevenTvProvider: EmoteProvider = {
+  name: '7tv',
+  async fetchGlobal() {
+    const data = await fetchJson<SevenTvEmoteSet>(`${urls.sevenTvApi}/emote-sets/global`, '7TV');
+    return (data?.emotes ?? []).map(toSevenTvEmote);
+  },
+  async fetchChannel(channelId) {
+    const data = await fetchJson<SevenTvUser>(`${urls.sevenTvApi}/users/twitch/${channelId}`, '7TV');
+    return (data?.emote_set?.emotes ?? []).map(toSevenTvEmote);
+  },
+};
+
+function toSevenTvEmote(raw: SevenTvEmote): Emote {
+  const host = raw.data?.host;
+  const file = host?.files?.find(f => f.name === '1x.webp') ?? host?.files?.[0];
+  const hostUrl = host?.url ?? '';
+  return {
+    id: raw.id,
+    name: raw.name,
+    url: file ? `${hostUrl.startsWith('//') ? 'https:' : ''}${hostUrl}/${file.name}` : '',
+    provider: '7tv',
+    width: file?.width,
+    height: file?.height,
+    zeroWidth: ((raw.flags ?? 0) & SEVEN_TV_ZERO_WIDTH) !== 0,
+  };
+}
+
+// Later providers win when two sets use the same emote name
+const providers: EmoteProvider[] = [ffzProvider, bttvProvider, sevenTvProvider];
+
+export function getEmoteProviders(): EmoteProvider[] {
+  return providers;
+}
+
+export function registerEmoteProvider(provider: EmoteProvider) {
+  const index = providers.findIndex(p => p.name === provider.name);
+  if (index >= 0) {
+    providers[index] = provider;
+  } else {
+    providers.push(provider);
+  }
+}
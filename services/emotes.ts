@@ -0,0 +1,170 @@
+import { ChatMessage, Emote, MessageFragment } from '../types/twitch';
+import { getEmoteProviders, getTwitchEmoteUrl, EmoteProvider } from './emoteProviders';
+import { storage } from './storage';
+
+export type EmoteIndex = Map<string, Emote>;
+
+const CACHE_PREFIX = '@emote_cache:';
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+const memoryCache = new Map<string, { at: number; emotes: Emote[] }>();
+const inFlight = new Map<string, Promise<Emote[]>>();
+
+// Load one provider's set, from memory, then storage, then the network
+async function loadSet(
+  provider: EmoteProvider,
+  scope: string,
+  loader: () => Promise<Emote[]>
+): Promise<Emote[]> {
+  const key = `${provider.name}:${scope}`;
+  const cached = memoryCache.get(key);
+  if (cached && Date.now() - cached.at < CACHE_TTL_MS) {
+    return cached.emotes;
+  }
+
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const promise = (async () => {
+    try {
+      const stored = await storage.getItem(CACHE_PREFIX + key);
+      if (stored) {
+        const parsed = JSON.parse(stored) as { at: number; emotes: Emote[] };
+        if (Date.now() - parsed.at < CACHE_TTL_MS) {
+          memoryCache.set(key, parsed);
+          return parsed.emotes;
+        }
+      }
+    } catch (error) {
+      console.log('Ignoring unreadable emote cache for', key);
+    }
+
+    try {
+      const emotes = await loader();
+      const entry = { at: Date.now(), emotes };
+      memoryCache.set(key, entry);
+      storage.setItem(CACHE_PREFIX + key, JSON.stringify(entry)).catch(() => {});
+      return emotes;
+    } catch (error) {
+      console.error(`Failed to load ${key} emotes:`, error);
+      // Fall back to a stale copy rather than showing no emotes at all
+      return cached?.emotes ?? [];
+    }
+  })();
+
+  inFlight.set(key, promise);
+  try {
+    return await promise;
+  } finally {
+    inFlight.delete(key);
+  }
+}
+
+// Build the name -> emote lookup for a channel; channel sets override global ones
+export async function loadEmoteIndex(channelId: string): Promise<EmoteIndex> {
+  const providers = getEmoteProviders();
+  const [globalSets, channelSets] = await Promise.all([
+    Promise.all(providers.map(p => loadSet(p, 'global', () => p.fetchGlobal()))),
+    Promise.all(providers.map(p => loadSet(p, channelId, () => p.fetchChannel(channelId)))),
+  ]);
+
+  const index: EmoteIndex = new Map();
+  for (const set of [...globalSets, ...channelSets]) {
+    for (const emote of set) {
+      if (emote.name && emote.url) {
+        index.set(emote.name, emote);
+      }
+    }
+  }
+  return index;
+}
+
+export function clearEmoteCache() {
+  memoryCache.clear();
+}
+
+// Split a message into text and emote pieces. Twitch emotes come from the
+// IRC emote ranges; third-party emotes are matched word by word.
+export function parseMessageFragments(message: ChatMessage, index?: EmoteIndex | null): MessageFragment[] {
+  // Twitch ranges count code points, so work on an array of them
+  const chars = Array.from(message.message);
+  const fragments: MessageFragment[] = [];
+  let textStart = 0;
+
+  const pushText = (text: string) => {
+    if (!text) return;
+    fragments.push(...splitThirdPartyEmotes(text, index));
+  };
+
+  for (const range of message.emotes ?? []) {
+    if (range.start < textStart || range.end >= chars.length) continue;
+    pushText(chars.slice(textStart, range.start).join(''));
+    const name = chars.slice(range.start, range.end + 1).join('');
+    fragments.push({
+      type: 'emote',
+      text: name,
+      emote: { id: range.id, name, url: getTwitchEmoteUrl(range.id), provider: 'twitch' },
+    });
+    textStart = range.end + 1;
+  }
+  pushText(chars.slice(textStart).join(''));
+
+  return fragments;
+}
+
+function splitThirdPartyEmotes(text: string, index?: EmoteIndex | null): MessageFragment[] {
+  if (!index || index.size === 0) return [{ type: 'text', text }];
+
+  const fragments: MessageFragment[] = [];
+  let buffer = '';
+  // Keep the whitespace so the text reads the same when joined back up
+  for (const part of text.split(/(\s+)/)) {
+    const emote = index.get(part);
+    if (emote) {
+      if (buffer) fragments.push({ type: 'text', text: buffer });
+      buffer = '';
+      fragments.push({ type: 'emote', text: part, emote });
+    } else {
+      buffer += part;
+    }
+  }
+  if (buffer) fragments.push({ type: 'text', text: buffer });
+  return fragments;
+}
+
+// "PogChamp" -> "pog champ", "KEKW" -> "kekw", "catJAM2" -> "cat jam"
+export function readableEmoteName(name: string): string {
+  return name
+    .replace(/[_\-.:]+/g, ' ')
+    .replace(/\d+/g, ' ')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+export type EmoteSpeechMode = 'skip' | 'name';
+
+// Text for TTS with emotes either dropped or replaced by a readable name
+export function getSpeakableText(fragments: MessageFragment[], mode: EmoteSpeechMode): string {
+  let previousEmote: string | null = null;
+  const parts: string[] = [];
+
+  for (const fragment of fragments) {
+    if (fragment.type === 'text') {
+      parts.push(fragment.text);
+      if (fragment.text.trim()) previousEmote = null;
+      continue;
+    }
+    if (mode === 'skip' || fragment.emote.zeroWidth) continue;
+    // "KEKW KEKW KEKW" is read once
+    const readable = readableEmoteName(fragment.emote.name);
+    if (readable && readable !== previousEmote) {
+      parts.push(readable);
+      previousEmote = readable;
+    }
+  }
+
+  return parts.join('').replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,225 @@
+import { storage } from './storage';
+import { abortError } from './helixClient';
+
+// How long an entry is served without asking Twitch (ttl), and how long a stale copy
+// is still good enough to show while a fresh one loads (maxAge)
+export interface CachePolicy {
+  ttl: number;
+  maxAge: number;
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+export const CACHE_POLICIES = {
+  // Profile images and names rarely change
+  user: { ttl: DAY, maxAge: 30 * DAY },
+  follows: { ttl: 5 * MINUTE, maxAge: 7 * DAY },
+  // Live state goes stale quickly; a stale copy is only worth showing for a few minutes
+  stream: { ttl: 30 * 1000, maxAge: 10 * MINUTE },
+} satisfies Record<string, CachePolicy>;
+
+interface CacheEntry {
+  value: unknown;
+  freshUntil: number;
+  expiresAt: number;
+}
+
+export interface CacheOptions {
+  signal?: AbortSignal;
+}
+
+const CACHE_KEY = '@helix_cache';
+const PERSIST_DELAY_MS = 1000;
+// Chat looks up every chatter's account, so the least recently used entries make way past this
+const MAX_ENTRIES = 5000;
+
+// Resolve like `promise`, unless `signal` aborts first. The underlying request keeps
+// going, since other callers may be waiting on it too.
+function raceSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortError());
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+// Memory cache for Helix responses, persisted to storage so a cold start can show the
+// last known data straight away. Concurrent requests for the same key share one fetch.
+// Entries are kept in least to most recently used order.
+class HelixCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<unknown>>();
+  private loading: Promise<void> | null = null;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const stored = await storage.getItem(CACHE_KEY);
+          if (!stored) return;
+          const now = Date.now();
+          const restored = Object.entries(JSON.parse(stored) as Record<string, CacheEntry>)
+            // Anything fetched since launch wins over the stored copy
+            .filter(([key, entry]) => entry.expiresAt > now && !this.entries.has(key));
+          this.entries = new Map([...restored, ...this.entries]);
+          this.evict();
+          console.log(`Loaded ${this.entries.size} cached Helix entries`);
+        } catch (error) {
+          console.log('Ignoring unreadable Helix cache:', error);
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  // Whatever we have that hasn't expired, fresh or not; never hits the network
+  peek<T>(key: string): T | undefined {
+    const entry = this.touch(key);
+    return entry && entry.expiresAt > Date.now() ? (entry.value as T) : undefined;
+  }
+
+  set<T>(key: string, value: T, policy: CachePolicy) {
+    const now = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, { value, freshUntil: now + policy.ttl, expiresAt: now + policy.maxAge });
+    this.evict();
+    this.schedulePersist();
+  }
+
+  async get<T>(key: string, policy: CachePolicy, loader: () => Promise<T>, options: CacheOptions = {}): Promise<T> {
+    await this.load();
+    const entry = this.touch(key);
+    const now = Date.now();
+    if (entry && entry.freshUntil > now) return entry.value as T;
+
+    // Show the stale copy now and refresh it in the background; fetch() shares one request per key
+    if (entry && entry.expiresAt > now) {
+      this.fetch(key, policy, loader).catch(error => console.error('Background refresh failed for', key, error));
+      return entry.value as T;
+    }
+    return raceSignal(this.fetch(key, policy, loader), options.signal);
+  }
+
+  // Batched version of get() for endpoints that take a list of ids; only ids with no fresh
+  // entry are passed to the loader. Ids the loader doesn't return are cached as null.
+  async getMany<T>(
+    ids: string[],
+    keyOf: (id: string) => string,
+    policy: CachePolicy,
+    loader: (ids: string[]) => Promise<Map<string, T>>,
+    options: CacheOptions = {}
+  ): Promise<Map<string, T | null>> {
+    await this.load();
+    const now = Date.now();
+    const results = new Map<string, T | null>();
+    const pending = new Map<string, Promise<unknown>>();
+    const needed: string[] = [];
+
+    for (const id of ids) {
+      const key = keyOf(id);
+      const entry = this.touch(key);
+      if (entry && entry.freshUntil > now) {
+        results.set(id, entry.value as T | null);
+      } else if (this.inFlight.has(key)) {
+        pending.set(id, this.inFlight.get(key)!);
+      } else {
+        needed.push(id);
+      }
+    }
+
+    if (needed.length > 0) {
+      const batch = loader(needed);
+      needed.forEach(id => {
+        const key = keyOf(id);
+        const request = batch
+          .then(values => {
+            const value = values.get(id) ?? null;
+            this.set(key, value, policy);
+            return value;
+          })
+          .finally(() => this.inFlight.delete(key));
+        this.inFlight.set(key, request);
+        pending.set(id, request);
+      });
+    }
+
+    const waiting = [...pending.keys()];
+    const settled = await raceSignal(Promise.allSettled(waiting.map(id => pending.get(id)!)), options.signal);
+    settled.forEach((result, i) => {
+      const id = waiting[i];
+      if (result.status === 'fulfilled') {
+        results.set(id, result.value as T | null);
+        return;
+      }
+      const stale = this.peek<T | null>(keyOf(id));
+      if (stale === undefined) throw result.reason;
+      results.set(id, stale);
+    });
+    if (settled.some(result => result.status === 'rejected')) {
+      console.error('Serving stale cache for some ids after a failed batch');
+    }
+    return results;
+  }
+
+  // Forget everything, e.g. on logout
+  async clear() {
+    this.entries.clear();
+    if (this.persistTimer) clearTimeout(this.persistTimer);
+    this.persistTimer = null;
+    await storage.removeItem(CACHE_KEY);
+  }
+
+  // Looks up an entry and marks it as the most recently used
+  private touch(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  private evict() {
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= MAX_ENTRIES) break;
+      this.entries.delete(key);
+    }
+  }
+
+  private fetch<T>(key: string, policy: CachePolicy, loader: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const request = loader()
+      .then(value => {
+        this.set(key, value, policy);
+        return value;
+      })
+      .finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  // Writes are batched, since a streamer list refresh touches hundreds of entries
+  private schedulePersist() {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      const now = Date.now();
+      const live: Record<string, CacheEntry> = {};
+      this.entries.forEach((entry, key) => {
+        if (entry.expiresAt > now) live[key] = entry;
+        else this.entries.delete(key);
+      });
+      storage.setItem(CACHE_KEY, JSON.stringify(live)).catch(error => {
+        console.error('Failed to save Helix cache:', error);
+      });
+    }, PERSIST_DELAY_MS);
+  }
+}
+
+export const helixCache = new HelixCache();
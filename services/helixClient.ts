@@ -0,0 +1,224 @@
+import { HelixResponse } from '../types/twitch';
+
+const API_BASE = 'https://api.twitch.tv/helix';
+
+const MAX_RETRIES = 3;
+const BACKOFF_BASE_MS = 500;
+// Don't sit on a request for longer than this waiting out a rate limit
+const MAX_WAIT_MS = 60000;
+
+export type HelixQuery = Record<string, string | number | boolean | (string | number)[] | undefined>;
+
+export interface HelixRequestOptions {
+  method?: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+  query?: HelixQuery;
+  body?: unknown;
+  signal?: AbortSignal;
+}
+
+// status is 0 when Twitch couldn't be reached at all
+export class HelixError extends Error {
+  status: number;
+  path: string;
+  // Milliseconds until a retry makes sense, when Twitch told us
+  retryAfter: number | null;
+
+  constructor(message: string, status: number, path: string, retryAfter: number | null = null) {
+    super(message);
+    this.name = 'HelixError';
+    this.status = status;
+    this.path = path;
+    this.retryAfter = retryAfter;
+  }
+
+  get isUnauthorized(): boolean {
+    return this.status === 401;
+  }
+
+  get isRateLimited(): boolean {
+    return this.status === 429;
+  }
+
+  // Network failures and Twitch outages, as opposed to something wrong with the request
+  get isTransient(): boolean {
+    return this.status === 0 || this.status === 429 || this.status >= 500;
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+export function abortError(): Error {
+  const error = new Error('Request was cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function buildUrl(path: string, query?: HelixQuery): string {
+  const url = new URL(`${API_BASE}${path}`);
+  Object.entries(query ?? {}).forEach(([key, value]) => {
+    if (value === undefined) return;
+    // Repeated keys, e.g. ?user_id=1&user_id=2
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach(v => url.searchParams.append(key, String(v)));
+  });
+  return url.toString();
+}
+
+// Shared fetch for every Helix endpoint: auth headers, the rate-limit bucket,
+// retries with backoff on 429 and 5xx, and cursor pagination
+export class HelixClient {
+  private clientId: string;
+  private onUnauthorized: ((token: string) => void) | null = null;
+  // From the Ratelimit-* headers of the last response
+  private rateLimitRemaining: number | null = null;
+  private rateLimitReset = 0;
+
+  constructor(clientId: string) {
+    this.clientId = clientId;
+  }
+
+  // Called with the rejected token on every 401, so auth can refresh or end the session
+  setUnauthorizedHandler(handler: ((token: string) => void) | null) {
+    this.onUnauthorized = handler;
+  }
+
+  async request<T>(token: string, path: string, options: HelixRequestOptions = {}): Promise<HelixResponse<T>> {
+    const { method = 'GET', query, body, signal } = options;
+    const url = buildUrl(path, query);
+
+    for (let attempt = 0; ; attempt++) {
+      // The bucket is shared by every request with this client id, so wait for it to refill
+      // instead of spending a request on a 429
+      if (this.rateLimitRemaining === 0 && this.rateLimitReset > Date.now()) {
+        await sleep(Math.min(this.rateLimitReset - Date.now(), MAX_WAIT_MS), signal);
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Client-Id': this.clientId,
+            ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          },
+          body: body !== undefined ? JSON.stringify(body) : undefined,
+          signal,
+        });
+      } catch (error) {
+        if (isAbortError(error) || signal?.aborted) throw abortError();
+        if (attempt < MAX_RETRIES) {
+          await sleep(BACKOFF_BASE_MS * Math.pow(2, attempt), signal);
+          continue;
+        }
+        console.error('Helix request failed:', path, error);
+        throw new HelixError('Could not reach Twitch', 0, path);
+      }
+
+      this.updateRateLimit(response);
+      if (response.ok) {
+        // 204 No Content from writes
+        return response.status === 204 ? { data: [] } : response.json();
+      }
+
+      const error = await this.toError(response, path);
+      if (error.isUnauthorized) {
+        this.onUnauthorized?.(token);
+        throw error;
+      }
+      if (!error.isTransient || attempt >= MAX_RETRIES) {
+        throw error;
+      }
+      const delay = error.retryAfter ?? BACKOFF_BASE_MS * Math.pow(2, attempt);
+      if (delay > MAX_WAIT_MS) throw error;
+      console.log(`Helix ${error.status} on ${path}, retrying in ${delay}ms`);
+      await sleep(delay, signal);
+    }
+  }
+
+  // Just the data of one page
+  async get<T>(token: string, path: string, query?: HelixQuery, signal?: AbortSignal): Promise<T[]> {
+    const response = await this.request<T>(token, path, { query, signal });
+    return response.data;
+  }
+
+  // One page at a time, following the cursor until Twitch stops sending one
+  async *paginate<T>(
+    token: string,
+    path: string,
+    query: HelixQuery = {},
+    signal?: AbortSignal
+  ): AsyncGenerator<T[]> {
+    let cursor: string | undefined;
+    do {
+      const response = await this.request<T>(token, path, {
+        query: { first: 100, ...query, after: cursor },
+        signal,
+      });
+      yield response.data;
+      cursor = response.pagination?.cursor;
+    } while (cursor);
+  }
+
+  // Every page concatenated, optionally stopping once `limit` items have been collected
+  async getAll<T>(
+    token: string,
+    path: string,
+    query: HelixQuery = {},
+    options: { signal?: AbortSignal; limit?: number } = {}
+  ): Promise<T[]> {
+    const items: T[] = [];
+    for await (const page of this.paginate<T>(token, path, query, options.signal)) {
+      items.push(...page);
+      if (options.limit && items.length >= options.limit) {
+        return items.slice(0, options.limit);
+      }
+    }
+    return items;
+  }
+
+  private updateRateLimit(response: Response) {
+    const remaining = response.headers.get('Ratelimit-Remaining');
+    const reset = response.headers.get('Ratelimit-Reset');
+    if (remaining !== null) this.rateLimitRemaining = Number(remaining);
+    // Epoch seconds
+    if (reset !== null) this.rateLimitReset = Number(reset) * 1000;
+  }
+
+  private async toError(response: Response, path: string): Promise<HelixError> {
+    // Not every error response has a JSON body
+    const body = await response.json().catch(() => null);
+    const message = body?.message || `Helix request failed with status ${response.status}`;
+
+    let retryAfter: number | null = null;
+    if (response.status === 429) {
+      const reset = response.headers.get('Ratelimit-Reset');
+      retryAfter = reset !== null ? Math.max(0, Number(reset) * 1000 - Date.now()) : null;
+    } else {
+      const header = response.headers.get('Retry-After');
+      retryAfter = header !== null && !isNaN(Number(header)) ? Number(header) * 1000 : null;
+    }
+
+    return new HelixError(message, response.status, path, retryAfter);
+  }
+}
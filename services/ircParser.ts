@@ -0,0 +1,164 @@
+import { IrcMessage, IrcPrefix, ChatBadge, ChatEmoteRange, ChatRoles } from '../types/twitch';
+
+// IRCv3 tag values escape these characters (https://ircv3.net/specs/extensions/message-tags)
+const TAG_ESCAPES: Record<string, string> = {
+  ':': ';',
+  's': ' ',
+  '\\': '\\',
+  'r': '\r',
+  'n': '\n',
+};
+
+export function unescapeTagValue(value: string): string {
+  let result = '';
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char !== '\\') {
+      result += char;
+      continue;
+    }
+    const next = value[i + 1];
+    // A trailing lone backslash is dropped
+    if (next === undefined) break;
+    result += TAG_ESCAPES[next] ?? next;
+    i++;
+  }
+  return result;
+}
+
+export function parseTags(tagsStr: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+  for (const pair of tagsStr.split(';')) {
+    if (!pair) continue;
+    const eqIndex = pair.indexOf('=');
+    if (eqIndex === -1) {
+      tags[pair] = '';
+    } else {
+      tags[pair.substring(0, eqIndex)] = unescapeTagValue(pair.substring(eqIndex + 1));
+    }
+  }
+  return tags;
+}
+
+export function parsePrefix(prefixStr: string): IrcPrefix {
+  // nick!user@host, or just a server name
+  const atIndex = prefixStr.indexOf('@');
+  const bangIndex = prefixStr.indexOf('!');
+
+  if (atIndex === -1 && bangIndex === -1) {
+    return { host: prefixStr };
+  }
+
+  const nickEnd = bangIndex !== -1 ? bangIndex : atIndex;
+  const nick = prefixStr.substring(0, nickEnd);
+  const user = bangIndex !== -1
+    ? prefixStr.substring(bangIndex + 1, atIndex !== -1 ? atIndex : undefined)
+    : undefined;
+  const host = atIndex !== -1 ? prefixStr.substring(atIndex + 1) : '';
+
+  return { nick, user, host };
+}
+
+// Parse a single IRC line (without the trailing CRLF)
+export function parseIrcLine(line: string): IrcMessage | null {
+  let pos = 0;
+  let tags: Record<string, string> = {};
+  let prefix: IrcPrefix | null = null;
+
+  const nextSpace = () => {
+    const index = line.indexOf(' ', pos);
+    return index === -1 ? line.length : index;
+  };
+  const skipSpaces = () => {
+    while (line[pos] === ' ') pos++;
+  };
+
+  if (line.startsWith('@')) {
+    const end = nextSpace();
+    tags = parseTags(line.substring(1, end));
+    pos = end;
+    skipSpaces();
+  }
+
+  if (line[pos] === ':') {
+    const end = nextSpace();
+    prefix = parsePrefix(line.substring(pos + 1, end));
+    pos = end;
+    skipSpaces();
+  }
+
+  const commandEnd = nextSpace();
+  const command = line.substring(pos, commandEnd).toUpperCase();
+  if (!command) return null;
+  pos = commandEnd;
+
+  const params: string[] = [];
+  let trailing: string | undefined;
+
+  while (pos < line.length) {
+    skipSpaces();
+    if (pos >= line.length) break;
+
+    if (line[pos] === ':') {
+      trailing = line.substring(pos + 1);
+      break;
+    }
+
+    const end = nextSpace();
+    params.push(line.substring(pos, end));
+    pos = end;
+  }
+
+  return { raw: line, tags, prefix, command, params, trailing };
+}
+
+// badges tag: "broadcaster/1,subscriber/12"
+export function parseBadges(value: string | undefined): ChatBadge[] {
+  if (!value) return [];
+  return value
+    .split(',')
+    .filter(Boolean)
+    .map(entry => {
+      const slashIndex = entry.indexOf('/');
+      return slashIndex === -1
+        ? { id: entry, version: '' }
+        : { id: entry.substring(0, slashIndex), version: entry.substring(slashIndex + 1) };
+    });
+}
+
+// Roles come from the badges, with the legacy mod/subscriber/vip tags as a fallback
+export function parseRoles(tags: Record<string, string>, badges: ChatBadge[], badgeInfo: ChatBadge[]): ChatRoles {
+  const has = (id: string) => badges.some(b => b.id === id);
+  const subInfo = badgeInfo.find(b => b.id === 'subscriber' || b.id === 'founder');
+  const months = subInfo ? parseInt(subInfo.version, 10) : NaN;
+
+  return {
+    broadcaster: has('broadcaster'),
+    moderator: has('moderator') || tags['mod'] === '1',
+    vip: has('vip') || 'vip' in tags,
+    subscriber: has('subscriber') || has('founder') || tags['subscriber'] === '1',
+    subscriberMonths: isNaN(months) ? undefined : months,
+  };
+}
+
+// emotes tag: "25:0-4,12-16/1902:6-10"
+// Positions are inclusive and count Unicode code points, not UTF-16 units
+export function parseEmotes(value: string | undefined): ChatEmoteRange[] {
+  if (!value) return [];
+  const ranges: ChatEmoteRange[] = [];
+
+  for (const group of value.split('/')) {
+    const colonIndex = group.indexOf(':');
+    if (colonIndex === -1) continue;
+    const id = group.substring(0, colonIndex);
+
+    for (const range of group.substring(colonIndex + 1).split(',')) {
+      const [start, end] = range.split('-').map(Number);
+      if (Number.isFinite(start) && Number.isFinite(end)) {
+        ranges.push({ id, start, end });
+      }
+    }
+  }
+
+  return ranges.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,197 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { LiveChange, TwitchStream } from '../types/twitch';
+import { getFollowedChannels, getLiveStreams } from './twitchApi';
+import { HelixError } from './helixClient';
+
+// Streams are cached for 30 seconds, so anything faster would only re-read the cache
+const BASE_INTERVAL_MS = 60000;
+// Stretch the interval while nothing changes, back to the base as soon as something does
+const MAX_QUIET_INTERVAL_MS = 3 * 60000;
+// Only until the OS suspends the app: native timers stop then, and browsers throttle hidden tabs
+const BACKGROUND_INTERVAL_MS = 5 * 60000;
+const MAX_ERROR_INTERVAL_MS = 10 * 60000;
+// Helix sometimes drops a live stream from one response; only call it offline once it stays gone
+const OFFLINE_CONFIRM_POLLS = 2;
+
+// Called after every successful poll, with an empty list when nothing changed
+type LiveListener = (changes: LiveChange[]) => void;
+
+export function describeLiveChange(change: LiveChange): string {
+  const name = change.displayName;
+  switch (change.type) {
+    case 'live':
+      return change.stream?.game_name
+        ? `${name} just went live playing ${change.stream.game_name}`
+        : `${name} just went live`;
+    case 'offline':
+      return `${name} went offline`;
+    case 'game':
+      return `${name} switched to ${change.stream?.game_name || 'no category'}`;
+    case 'title':
+      return `${name} changed the title: ${change.stream?.title ?? ''}`;
+  }
+}
+
+// Polls live status of the followed channels for one account and reports what changed
+class LivePoller {
+  private token: string | null = null;
+  private userId: string | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private interval = BASE_INTERVAL_MS;
+  private errorCount = 0;
+  private lastPollAt = 0;
+  private polling = false;
+  private inForeground = true;
+  // Live streams by broadcaster id; null until the first poll, which only seeds it
+  private live: Map<string, TwitchStream> | null = null;
+  private followed = new Set<string>();
+  private missingPolls = new Map<string, number>();
+  private listeners = new Set<LiveListener>();
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  // Restarts from scratch when the account changes; a new token for the same account keeps the state
+  start(token: string, userId: string) {
+    if (this.userId === userId) {
+      this.token = token;
+      return;
+    }
+    this.stop();
+    this.token = token;
+    this.userId = userId;
+    this.inForeground = AppState.currentState !== 'background';
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+    this.poll();
+  }
+
+  stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.token = null;
+    this.userId = null;
+    this.live = null;
+    this.followed.clear();
+    this.missingPolls.clear();
+    this.interval = BASE_INTERVAL_MS;
+    this.errorCount = 0;
+  }
+
+  subscribe(listener: LiveListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  isLive(userId: string): boolean {
+    return this.live?.has(userId) ?? false;
+  }
+
+  private handleAppStateChange = (status: AppStateStatus) => {
+    const wasForeground = this.inForeground;
+    this.inForeground = status !== 'background';
+    // Catch up straight away when coming back, then carry on at the foreground pace
+    if (this.inForeground && !wasForeground && Date.now() - this.lastPollAt > BASE_INTERVAL_MS) {
+      this.interval = BASE_INTERVAL_MS;
+      this.poll();
+    }
+  };
+
+  private async poll() {
+    const { token, userId } = this;
+    if (!token || !userId || this.polling) return;
+    this.polling = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+
+    try {
+      const channels = await getFollowedChannels(token, userId);
+      const streams = await getLiveStreams(token, channels.map(c => c.broadcaster_id));
+      // Stopped or switched accounts while waiting
+      if (this.userId !== userId) return;
+
+      const changes = this.diff(channels.map(c => c.broadcaster_id), streams);
+      this.lastPollAt = Date.now();
+      this.errorCount = 0;
+      this.interval = changes.length > 0
+        ? BASE_INTERVAL_MS
+        : Math.min(this.interval * 1.5, MAX_QUIET_INTERVAL_MS);
+      this.listeners.forEach(listener => listener(changes));
+    } catch (error) {
+      if (this.userId !== userId) return;
+      this.errorCount++;
+      this.interval = Math.min(BASE_INTERVAL_MS * Math.pow(2, this.errorCount), MAX_ERROR_INTERVAL_MS);
+      if (error instanceof HelixError && error.retryAfter) {
+        this.interval = Math.max(this.interval, error.retryAfter);
+      }
+      console.error('Live status poll failed:', error);
+    } finally {
+      this.polling = false;
+      if (this.userId === userId) this.schedule();
+    }
+  }
+
+  private schedule() {
+    const delay = this.inForeground ? this.interval : Math.max(this.interval, BACKGROUND_INTERVAL_MS);
+    this.timer = setTimeout(() => this.poll(), delay);
+  }
+
+  private diff(followedIds: string[], streams: TwitchStream[]): LiveChange[] {
+    const current = new Map(streams.map(stream => [stream.user_id, stream]));
+    const previous = this.live;
+    const wasFollowed = this.followed;
+    this.followed = new Set(followedIds);
+
+    if (!previous) {
+      this.live = current;
+      return [];
+    }
+
+    const changes: LiveChange[] = [];
+    const next = new Map<string, TwitchStream>();
+    const change = (type: LiveChange['type'], before: TwitchStream | null, after: TwitchStream | null) => {
+      const stream = (after ?? before)!;
+      changes.push({
+        type,
+        userId: stream.user_id,
+        login: stream.user_login,
+        displayName: stream.user_name,
+        stream: after,
+        previous: before,
+      });
+    };
+
+    for (const id of followedIds) {
+      const before = previous.get(id) ?? null;
+      const after = current.get(id) ?? null;
+
+      if (after) {
+        this.missingPolls.delete(id);
+        next.set(id, after);
+        // Channels followed since the last poll were already live, not just now
+        if (!before && wasFollowed.has(id)) {
+          change('live', null, after);
+        } else if (before && before.game_name !== after.game_name) {
+          change('game', before, after);
+        } else if (before && before.title !== after.title) {
+          change('title', before, after);
+        }
+        continue;
+      }
+
+      if (!before) continue;
+      const missing = (this.missingPolls.get(id) ?? 0) + 1;
+      if (missing < OFFLINE_CONFIRM_POLLS) {
+        this.missingPolls.set(id, missing);
+        next.set(id, before);
+      } else {
+        this.missingPolls.delete(id);
+        change('offline', before, null);
+      }
+    }
+
+    this.live = next;
+    return changes;
+  }
+}
+
+export const livePoller = new LivePoller();
@@ -0,0 +1,67 @@
+import { AppState, Platform } from 'react-native';
+
+// Only import expo-notifications for native platforms; web gets in-app toasts instead
+let Notifications: typeof import('expo-notifications') | null = null;
+if (Platform.OS !== 'web') {
+  Notifications = require('expo-notifications');
+  // The poller runs on JS timers, which the OS suspends soon after the app leaves the screen
+  // (within seconds on iOS, later on Android), so most notifications are raised while the app
+  // is open. They get a banner then too; only the sound is kept for the background.
+  Notifications!.setNotificationHandler({
+    handleNotification: async () => {
+      const inBackground = AppState.currentState !== 'active';
+      return {
+        shouldShowBanner: true,
+        shouldShowList: true,
+        shouldPlaySound: inBackground,
+        shouldSetBadge: false,
+      };
+    },
+  });
+}
+
+// Android 13+ won't show the permission prompt, or any notification, until a channel exists
+const LIVE_CHANNEL_ID = 'live';
+const channelReady: Promise<unknown> = Notifications && Platform.OS === 'android'
+  ? Notifications.setNotificationChannelAsync(LIVE_CHANNEL_ID, {
+    name: 'Live channels',
+    importance: Notifications.AndroidImportance.DEFAULT,
+  }).catch(error => console.error('Failed to create notification channel:', error))
+  : Promise.resolve();
+
+export function areNotificationsSupported(): boolean {
+  return !!Notifications;
+}
+
+// Asks the first time; resolves false if the user said no or the platform can't
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (!Notifications) return false;
+  await channelReady;
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+}
+
+export async function showNotification(title: string, body: string, data: Record<string, string> = {}) {
+  if (!Notifications) return;
+  try {
+    await channelReady;
+    await Notifications.scheduleNotificationAsync({
+      content: { title, body, data },
+      trigger: Platform.OS === 'android' ? { channelId: LIVE_CHANNEL_ID } : null,
+    });
+  } catch (error) {
+    console.error('Failed to show notification:', error);
+  }
+}
+
+// Called with the notification's data when the user taps one
+export function onNotificationTap(handler: (data: Record<string, unknown>) => void): () => void {
+  if (!Notifications) return () => {};
+  const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+    handler(response.notification.request.content.data ?? {});
+  });
+  return () => subscription.remove();
+}
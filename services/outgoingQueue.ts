@@ -0,0 +1,247 @@
+import { OutgoingStatus } from '../types/twitch';
+
+export interface SendStatusUpdate {
+  channel: string;
+  localId: string;
+  status: OutgoingStatus;
+  reason?: string;
+  messageId?: string;
+}
+
+interface OutgoingMessage {
+  localId: string;
+  channel: string;
+  text: string;
+  queuedAt: number;
+}
+
+interface InFlightMessage extends OutgoingMessage {
+  sentAt: number;
+}
+
+// Twitch allows 20 messages per 30 seconds, or 100 where we are a mod/VIP/broadcaster
+const RATE_WINDOW_MS = 30000;
+const RATE_LIMIT = 20;
+const ELEVATED_RATE_LIMIT = 100;
+
+// Twitch rejects the same text twice in a row within 30 seconds
+const DUPLICATE_WINDOW_MS = 30000;
+// Repeats this close together are almost always speech recognition firing twice
+const DUPLICATE_SUPPRESS_MS = 3000;
+// Invisible suffix that makes a deliberate repeat pass the duplicate check
+const DUPLICATE_BYPASS_SUFFIX = ' \u{E0000}';
+
+// How long to wait for USERSTATE or a NOTICE before giving up on a send
+const CONFIRM_TIMEOUT_MS = 10000;
+
+const FAILURE_REASONS: Record<string, string> = {
+  msg_ratelimit: 'Sending too fast',
+  msg_duplicate: 'Duplicate message',
+  msg_banned: 'You are banned from this channel',
+  msg_timedout: 'You are timed out',
+  msg_slowmode: 'Slow mode is on',
+  msg_subsonly: 'Subscribers-only mode',
+  msg_emoteonly: 'Emote-only mode',
+  msg_followersonly: 'Followers-only mode',
+  msg_r9k: 'Message is not unique',
+  msg_channel_suspended: 'Channel is suspended',
+  msg_verified_email: 'Verified email required',
+};
+
+type SendFn = (channel: string, text: string) => boolean;
+type StatusFn = (update: SendStatusUpdate) => void;
+
+// Paces outgoing PRIVMSGs and matches each one to Twitch's accept/reject reply
+export class OutgoingQueue {
+  private send: SendFn;
+  private onStatus: StatusFn;
+  private queue: OutgoingMessage[] = [];
+  private inFlight: InFlightMessage[] = [];
+  private sentTimestamps: number[] = [];
+  // Last text per channel, and what actually went over the wire for it
+  private lastSent = new Map<string, { text: string; sent: string; at: number }>();
+  private elevatedChannels = new Set<string>();
+  private slowModeSeconds = new Map<string, number>();
+  private readyChannels = new Set<string>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(send: SendFn, onStatus: StatusFn) {
+    this.send = send;
+    this.onStatus = onStatus;
+  }
+
+  // Returns false when the text was dropped as an accidental repeat
+  enqueue(channel: string, text: string, localId: string): boolean {
+    const now = Date.now();
+    const recent = [...this.queue, ...this.inFlight]
+      .filter(m => m.channel === channel && m.text === text)
+      .concat(this.lastSentAsMessage(channel, text) ?? []);
+    if (recent.some(m => now - m.queuedAt < DUPLICATE_SUPPRESS_MS)) {
+      return false;
+    }
+
+    this.queue.push({ localId, channel, text, queuedAt: now });
+    this.flush();
+    return true;
+  }
+
+  setChannelReady(channel: string, ready: boolean) {
+    if (ready) {
+      this.readyChannels.add(channel);
+      this.flush();
+    } else {
+      this.readyChannels.delete(channel);
+    }
+  }
+
+  setElevated(channel: string, elevated: boolean) {
+    if (elevated) {
+      this.elevatedChannels.add(channel);
+    } else {
+      this.elevatedChannels.delete(channel);
+    }
+  }
+
+  setSlowMode(channel: string, seconds: number) {
+    this.slowModeSeconds.set(channel, seconds);
+  }
+
+  // USERSTATE right after a PRIVMSG means Twitch accepted it
+  handleUserState(channel: string, messageId?: string) {
+    const index = this.inFlight.findIndex(m => m.channel === channel);
+    if (index === -1) return;
+    const [message] = this.inFlight.splice(index, 1);
+    this.onStatus({ channel, localId: message.localId, status: 'sent', messageId });
+  }
+
+  // Returns true when the NOTICE was a rejection of one of our messages
+  handleNotice(channel: string, noticeType: string | undefined, text: string): boolean {
+    if (!noticeType?.startsWith('msg_')) return false;
+    const index = this.inFlight.findIndex(m => m.channel === channel);
+    if (index === -1) return false;
+
+    const [message] = this.inFlight.splice(index, 1);
+    const reasonKey = Object.keys(FAILURE_REASONS).find(key => noticeType.startsWith(key));
+    this.onStatus({
+      channel,
+      localId: message.localId,
+      status: 'failed',
+      reason: reasonKey ? FAILURE_REASONS[reasonKey] : text,
+    });
+    return true;
+  }
+
+  // The socket dropped: anything unconfirmed is lost, queued messages wait for the rejoin
+  handleDisconnect() {
+    this.readyChannels.clear();
+    this.inFlight.forEach(m => {
+      this.onStatus({ channel: m.channel, localId: m.localId, status: 'failed', reason: 'Connection lost' });
+    });
+    this.inFlight = [];
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  clear() {
+    this.handleDisconnect();
+    this.queue.forEach(m => {
+      this.onStatus({ channel: m.channel, localId: m.localId, status: 'failed', reason: 'Disconnected' });
+    });
+    this.queue = [];
+  }
+
+  private flush() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const now = Date.now();
+    this.expireInFlight(now);
+    this.sentTimestamps = this.sentTimestamps.filter(t => now - t < RATE_WINDOW_MS);
+
+    let nextAttempt = Infinity;
+    const remaining: OutgoingMessage[] = [];
+
+    for (const message of this.queue) {
+      const wait = this.waitTime(message, now);
+      if (wait === null) {
+        remaining.push(message);
+        continue;
+      }
+      if (wait > 0) {
+        nextAttempt = Math.min(nextAttempt, wait);
+        remaining.push(message);
+        continue;
+      }
+
+      const text = this.dedupeText(message, now);
+      if (!this.send(message.channel, text)) {
+        remaining.push(message);
+        continue;
+      }
+
+      this.sentTimestamps.push(now);
+      this.lastSent.set(message.channel, { text: message.text, sent: text, at: now });
+      this.inFlight.push({ ...message, sentAt: now });
+    }
+
+    this.queue = remaining;
+
+    if (this.inFlight.length > 0) {
+      nextAttempt = Math.min(nextAttempt, CONFIRM_TIMEOUT_MS);
+    }
+    if (nextAttempt !== Infinity) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flush();
+      }, nextAttempt);
+    }
+  }
+
+  // Milliseconds until this message may go out, or null while its channel isn't joined
+  private waitTime(message: OutgoingMessage, now: number): number | null {
+    if (!this.readyChannels.has(message.channel)) return null;
+
+    const elevated = this.elevatedChannels.has(message.channel);
+    const limit = elevated ? ELEVATED_RATE_LIMIT : RATE_LIMIT;
+    let wait = 0;
+    if (this.sentTimestamps.length >= limit) {
+      wait = RATE_WINDOW_MS - (now - this.sentTimestamps[this.sentTimestamps.length - limit]);
+    }
+
+    // Mods and VIPs are exempt from slow mode
+    const slow = this.slowModeSeconds.get(message.channel) ?? 0;
+    const last = this.lastSent.get(message.channel);
+    if (slow > 0 && !elevated && last) {
+      wait = Math.max(wait, slow * 1000 - (now - last.at));
+    }
+
+    return Math.max(wait, 0);
+  }
+
+  private dedupeText(message: OutgoingMessage, now: number): string {
+    const last = this.lastSent.get(message.channel);
+    if (last && last.text === message.text && now - last.at < DUPLICATE_WINDOW_MS) {
+      // Alternate the suffix so three repeats in a row all differ from their predecessor
+      return last.sent === message.text ? message.text + DUPLICATE_BYPASS_SUFFIX : message.text;
+    }
+    return message.text;
+  }
+
+  private lastSentAsMessage(channel: string, text: string): OutgoingMessage | null {
+    const last = this.lastSent.get(channel);
+    if (!last || last.text !== text) return null;
+    return { localId: '', channel, text, queuedAt: last.at };
+  }
+
+  private expireInFlight(now: number) {
+    const expired = this.inFlight.filter(m => now - m.sentAt >= CONFIRM_TIMEOUT_MS);
+    if (expired.length === 0) return;
+    this.inFlight = this.inFlight.filter(m => now - m.sentAt < CONFIRM_TIMEOUT_MS);
+    expired.forEach(m => {
+      this.onStatus({ channel: m.channel, localId: m.localId, status: 'failed', reason: 'No reply from Twitch' });
+    });
+  }
+}
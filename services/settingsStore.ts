@@ -0,0 +1,484 @@
+import { storage } from './storage';
+import { TtsNormalizationConfig, DEFAULT_NORMALIZATION } from './ttsNormalizer';
+import { TtsFilterRules, TtsRoleFilter, DEFAULT_TTS_FILTERS } from './ttsFilters';
+import { TtsDropPolicy } from './ttsQueue';
+import { VoicePins } from './voiceAssignment';
+import { StreamerGroup, StreamerSortMode, SORT_MODES } from './streamerSort';
+import { VoiceCommandSettings, DEFAULT_VOICE_COMMANDS } from './voiceCommands';
+
+export interface StreamSettings {
+  autoPlay: boolean;
+  autoUnmute: boolean;
+  ttsEnabled: boolean;
+}
+
+export interface LayoutSettings {
+  // Player without Twitch's own chat
+  playerOnlyMode: boolean;
+  showChat: boolean;
+}
+
+export interface VoiceSettings {
+  // null until the user picks one; a good default is chosen from what's installed
+  voiceId: string | null;
+  rate: number;
+  perUserVoices: boolean;
+  pins: VoicePins;
+  maxBacklog: number;
+  dropPolicy: TtsDropPolicy;
+}
+
+export interface NotificationSettings {
+  // Poll followed channels for live status in the background
+  enabled: boolean;
+  toasts: boolean;
+  // "X just went live playing Y" through the TTS voice
+  speak: boolean;
+  // System notifications; native only, and only while the app is open or was just backgrounded
+  native: boolean;
+  announceOffline: boolean;
+  // Game and title changes while live
+  announceChanges: boolean;
+  // Lowercase logins to announce; every followed channel's status is still kept up to date
+  channels: string[];
+}
+
+export interface StreamerListSettings {
+  sortMode: StreamerSortMode;
+  // Lowercase logins pinned to the top
+  favorites: string[];
+  groups: StreamerGroup[];
+  // Section keys, see StreamerSection
+  collapsedSections: string[];
+  // Extra names to recognize when a channel is picked by voice, by lowercase login
+  aliases: Record<string, string[]>;
+}
+
+export interface KeyboardShortcuts {
+  toggleTTS: string;
+  toggleTwitchChat: string;
+  toggleOurChat: string;
+  openSettings: string;
+  voiceInput: string;
+  skipTTS: string;
+  back: string;
+}
+
+export interface AppSettings {
+  version: number;
+  stream: StreamSettings;
+  layout: LayoutSettings;
+  voice: VoiceSettings;
+  normalization: TtsNormalizationConfig;
+  filters: TtsFilterRules;
+  notifications: NotificationSettings;
+  streamerList: StreamerListSettings;
+  voiceCommands: VoiceCommandSettings;
+  shortcuts: KeyboardShortcuts;
+  // Keyed by lowercase channel login
+  channelProfiles: Record<string, ChannelProfile>;
+}
+
+export type SettingsSection = Exclude<keyof AppSettings, 'version' | 'channelProfiles'>;
+
+// The sections a channel profile may override; anything it leaves out follows the global settings
+export type ProfileSection = 'stream' | 'layout' | 'voice' | 'filters';
+export const PROFILE_SECTIONS: ProfileSection[] = ['stream', 'layout', 'voice', 'filters'];
+
+export type ChannelProfile = {
+  [K in ProfileSection]?: Partial<AppSettings[K]>;
+};
+
+type SettingsListener = (settings: AppSettings, previous: AppSettings) => void;
+
+export const SETTINGS_VERSION = 2;
+const SETTINGS_KEY = '@settings';
+
+// Keys the stream screen used to write on its own before there was a settings store
+const LEGACY_KEYS = ['streamSettings', 'keyboardShortcuts', 'ttsNormalization', 'ttsFilters', 'voicePins'];
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  version: SETTINGS_VERSION,
+  stream: {
+    autoPlay: true,
+    autoUnmute: true,
+    ttsEnabled: true,
+  },
+  layout: {
+    playerOnlyMode: true,
+    showChat: true,
+  },
+  voice: {
+    voiceId: null,
+    rate: 1.2,
+    perUserVoices: false,
+    pins: {},
+    maxBacklog: 10,
+    dropPolicy: 'summarize',
+  },
+  normalization: DEFAULT_NORMALIZATION,
+  filters: DEFAULT_TTS_FILTERS,
+  notifications: {
+    enabled: true,
+    toasts: true,
+    speak: false,
+    native: false,
+    announceOffline: false,
+    announceChanges: true,
+    channels: [],
+  },
+  streamerList: {
+    sortMode: 'viewers',
+    favorites: [],
+    groups: [],
+    collapsedSections: [],
+    aliases: {},
+  },
+  voiceCommands: DEFAULT_VOICE_COMMANDS,
+  shortcuts: {
+    toggleTTS: 't',
+    toggleTwitchChat: 'c',
+    toggleOurChat: 'h',
+    openSettings: 's',
+    voiceInput: 'v',
+    skipTTS: 'n',
+    back: 'Escape',
+  },
+  channelProfiles: {},
+};
+
+// Settings as read from storage or an import, before validateSettings has checked them
+type RawSettings = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is RawSettings =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asRecord = (value: unknown): RawSettings => (isRecord(value) ? value : {});
+
+// Each entry upgrades a stored object from that version to the next. Only changes to the
+// shape of existing settings need one; validateSettings fills in defaults for new sections.
+const MIGRATIONS: Record<number, (raw: RawSettings) => RawSettings> = {
+  // v0 is the old scattered keys, gathered up by readLegacySettings
+  0: (raw) => {
+    const streamSettings = asRecord(raw.streamSettings);
+    return {
+      version: 1,
+      stream: raw.streamSettings,
+      layout: { playerOnlyMode: streamSettings.playerOnlyMode },
+      voice: {
+        perUserVoices: streamSettings.perUserVoices,
+        pins: raw.voicePins,
+      },
+      normalization: {
+        ...asRecord(raw.ttsNormalization),
+        // Replaced by the emote step of text cleanup
+        ...(streamSettings.speakEmoteNames === false ? { emoteMode: 'skip' } : {}),
+      },
+      filters: raw.ttsFilters,
+      shortcuts: raw.keyboardShortcuts,
+    };
+  },
+  1: (raw) => ({
+    ...raw,
+    version: 2,
+    channelProfiles: {},
+  }),
+};
+
+const versionOf = (raw: RawSettings) => (typeof raw.version === 'number' ? raw.version : 0);
+
+export function migrateSettings(raw: unknown): RawSettings {
+  let current = asRecord(raw);
+  while (versionOf(current) < SETTINGS_VERSION) {
+    const migrate = MIGRATIONS[versionOf(current)];
+    if (!migrate) break;
+    current = migrate(current);
+  }
+  return current;
+}
+
+// Keep stored values only where they have the same shape as the default
+function pickValid<T extends object>(defaults: T, raw: unknown): Partial<T> {
+  if (!isRecord(raw)) return {};
+  const result: Partial<T> = {};
+  for (const key of Object.keys(defaults) as (keyof T & string)[]) {
+    const fallback = defaults[key];
+    const value = raw[key];
+    if (value === undefined) continue;
+    // The checks below stand in for T's types, which don't exist at runtime
+    if (Array.isArray(fallback)) {
+      if (Array.isArray(value)) result[key] = value.filter(item => typeof item === 'string') as T[typeof key];
+    } else if (typeof value === 'number' && !Number.isFinite(value)) {
+      continue;
+    } else if (fallback === null || typeof value === typeof fallback) {
+      result[key] = value as T[typeof key];
+    }
+  }
+  return result;
+}
+
+function mergeSection<T extends object>(defaults: T, raw: unknown): T {
+  return { ...defaults, ...pickValid(defaults, raw) };
+}
+
+const oneOf = <T extends string>(value: T, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value) ? value : fallback;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Turns anything read from storage (or an import) into a complete, well-formed settings object
+export function validateSettings(raw: unknown): AppSettings {
+  const source = isRecord(raw) ? raw : {};
+
+  const voice = mergeSection(DEFAULT_SETTINGS.voice, source.voice);
+  voice.voiceId = typeof voice.voiceId === 'string' ? voice.voiceId : null;
+  voice.rate = clamp(voice.rate, 0.5, 2);
+  voice.maxBacklog = clamp(Math.round(voice.maxBacklog), 1, 100);
+  voice.dropPolicy = oneOf(voice.dropPolicy, ['oldest', 'lowest-priority', 'summarize'], 'summarize');
+  voice.pins = isRecord(voice.pins)
+    ? Object.fromEntries(Object.entries(voice.pins).filter(([, id]) => typeof id === 'string'))
+    : {};
+
+  const normalization = mergeSection(DEFAULT_SETTINGS.normalization, source.normalization);
+  normalization.emoteMode = oneOf(normalization.emoteMode, ['skip', 'name'], 'name');
+  normalization.maxLength = Math.max(0, Math.round(normalization.maxLength));
+
+  const filters = mergeSection(DEFAULT_SETTINGS.filters, source.filters);
+  filters.allowedRoles = filters.allowedRoles.filter((role): role is TtsRoleFilter =>
+    ['subscriber', 'vip', 'moderator'].includes(role));
+  filters.minAccountAgeDays = Math.max(0, filters.minAccountAgeDays);
+
+  const notifications = mergeSection(DEFAULT_SETTINGS.notifications, source.notifications);
+  notifications.channels = [...new Set(notifications.channels.map(login => login.toLowerCase()))];
+
+  const streamerList = mergeSection(DEFAULT_SETTINGS.streamerList, source.streamerList);
+  streamerList.sortMode = oneOf(streamerList.sortMode, SORT_MODES.map(m => m.mode), 'viewers');
+  streamerList.favorites = [...new Set(streamerList.favorites.map(login => login.toLowerCase()))];
+  // pickValid only keeps string arrays, so groups are checked here
+  const rawGroups = isRecord(source.streamerList) ? source.streamerList.groups : undefined;
+  streamerList.groups = Array.isArray(rawGroups)
+    ? rawGroups
+      .filter(group => isRecord(group) && typeof group.id === 'string' && typeof group.name === 'string')
+      .map(group => ({
+        id: group.id,
+        name: group.name,
+        channels: Array.isArray(group.channels)
+          ? [...new Set<string>(group.channels.filter((c: unknown) => typeof c === 'string').map((c: string) => c.toLowerCase()))]
+          : [],
+      }))
+    : [];
+  streamerList.aliases = isRecord(streamerList.aliases)
+    ? Object.fromEntries(
+      Object.entries(streamerList.aliases)
+        .filter(([, names]) => Array.isArray(names))
+        .map(([login, names]) => [
+          login.toLowerCase(),
+          (names as unknown[]).filter((name): name is string => typeof name === 'string' && name.trim() !== ''),
+        ])
+    )
+    : {};
+
+  const voiceCommands = mergeSection(DEFAULT_SETTINGS.voiceCommands, source.voiceCommands);
+  voiceCommands.mode = oneOf(voiceCommands.mode, ['push-to-talk', 'wake-phrase'], 'push-to-talk');
+  voiceCommands.wakePhrase = voiceCommands.wakePhrase.trim() || DEFAULT_VOICE_COMMANDS.wakePhrase;
+  voiceCommands.language = voiceCommands.language.trim() || DEFAULT_VOICE_COMMANDS.language;
+
+  return {
+    version: SETTINGS_VERSION,
+    stream: mergeSection(DEFAULT_SETTINGS.stream, source.stream),
+    layout: mergeSection(DEFAULT_SETTINGS.layout, source.layout),
+    voice,
+    normalization,
+    filters,
+    notifications,
+    streamerList,
+    voiceCommands,
+    shortcuts: mergeSection(DEFAULT_SETTINGS.shortcuts, source.shortcuts),
+    channelProfiles: isRecord(source.channelProfiles)
+      ? Object.fromEntries(
+        Object.entries(source.channelProfiles).map(([login, profile]) => [login.toLowerCase(), validateProfile(profile)])
+      )
+      : {},
+  };
+}
+
+// Run each override through the same checks as the full settings, keeping only the keys it sets
+export function validateProfile(raw: unknown): ChannelProfile {
+  const source = isRecord(raw) ? raw : {};
+  const profile: ChannelProfile = {};
+  const validateSection = <K extends ProfileSection>(section: K) => {
+    const picked = pickValid(DEFAULT_SETTINGS[section], source[section]);
+    const keys = Object.keys(picked) as (keyof AppSettings[K])[];
+    if (keys.length === 0) return;
+    const checked = validateSettings({ [section]: picked })[section];
+    const overrides: Partial<AppSettings[K]> = {};
+    keys.forEach(key => {
+      overrides[key] = checked[key];
+    });
+    profile[section] = overrides;
+  };
+  PROFILE_SECTIONS.forEach(validateSection);
+  return profile;
+}
+
+// The settings that apply while watching a channel: global settings with its profile on top
+export function resolveChannelSettings(settings: AppSettings, channel: string | undefined): AppSettings {
+  const profile = channel ? settings.channelProfiles[channel.toLowerCase()] : undefined;
+  if (!profile) return settings;
+  const resolved = { ...settings };
+  const applySection = <K extends ProfileSection>(section: K) => {
+    const overrides = profile[section];
+    if (overrides) resolved[section] = { ...settings[section], ...overrides };
+  };
+  PROFILE_SECTIONS.forEach(applySection);
+  return resolved;
+}
+
+async function readLegacySettings(): Promise<RawSettings | null> {
+  const values = await Promise.all(LEGACY_KEYS.map(key => storage.getItem(key)));
+  if (values.every(value => value === null)) return null;
+
+  const legacy: RawSettings = { version: 0 };
+  LEGACY_KEYS.forEach((key, i) => {
+    try {
+      if (values[i]) legacy[key] = JSON.parse(values[i] as string);
+    } catch (error) {
+      console.log(`Ignoring unreadable ${key}:`, error);
+    }
+  });
+  return legacy;
+}
+
+type SettingsEdit = (settings: AppSettings) => AppSettings;
+
+export class SettingsStore {
+  private settings: AppSettings = DEFAULT_SETTINGS;
+  private loading: Promise<AppSettings> | null = null;
+  private loaded = false;
+  // Edits made before load() finished, replayed on top of what was stored
+  private pending: SettingsEdit[] = [];
+  private listeners = new Set<SettingsListener>();
+
+  get(): AppSettings {
+    return this.settings;
+  }
+
+  isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  load(): Promise<AppSettings> {
+    if (!this.loading) {
+      this.loading = this.readStored().then(stored => {
+        const edits = this.pending;
+        this.pending = [];
+        const settings = edits.reduce((current, edit) => edit(current), stored);
+        this.loaded = true;
+        this.apply(settings);
+        if (edits.length > 0) this.persist(settings);
+        return settings;
+      });
+    }
+    return this.loading;
+  }
+
+  update<K extends SettingsSection>(section: K, changes: Partial<AppSettings[K]>) {
+    this.edit(current => ({ ...current, [section]: { ...current[section], ...changes } }));
+  }
+
+  updateChannelProfile<K extends ProfileSection>(channel: string, section: K, changes: Partial<AppSettings[K]>) {
+    const login = channel.toLowerCase();
+    this.edit(current => {
+      const profile = current.channelProfiles[login] ?? {};
+      return {
+        ...current,
+        channelProfiles: {
+          ...current.channelProfiles,
+          [login]: { ...profile, [section]: { ...profile[section], ...changes } },
+        },
+      };
+    });
+  }
+
+  // An empty profile still exists, so edits made on that channel's stream stay with the channel
+  createChannelProfile(channel: string) {
+    const login = channel.toLowerCase();
+    this.edit(current => (current.channelProfiles[login]
+      ? current
+      : { ...current, channelProfiles: { ...current.channelProfiles, [login]: {} } }));
+  }
+
+  removeChannelProfile(channel: string) {
+    this.edit(current => {
+      const { [channel.toLowerCase()]: _removed, ...rest } = current.channelProfiles;
+      return { ...current, channelProfiles: rest };
+    });
+  }
+
+  // Replace everything, e.g. from an imported file; anything invalid falls back to defaults
+  set(raw: unknown) {
+    this.edit(() => raw);
+  }
+
+  reset() {
+    this.edit(() => DEFAULT_SETTINGS);
+  }
+
+  subscribe(listener: SettingsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async readStored(): Promise<AppSettings> {
+    try {
+      const stored = await storage.getItem(SETTINGS_KEY);
+      if (stored) {
+        return validateSettings(migrateSettings(JSON.parse(stored)));
+      }
+
+      const legacy = await readLegacySettings();
+      if (!legacy) return DEFAULT_SETTINGS;
+
+      const settings = validateSettings(migrateSettings(legacy));
+      await this.persist(settings);
+      await Promise.all(LEGACY_KEYS.map(key => storage.removeItem(key)));
+      return settings;
+    } catch (error) {
+      console.error('Failed to load settings:', error);
+      return DEFAULT_SETTINGS;
+    }
+  }
+
+  // Before load() finishes the stored settings aren't known yet, so saving now would
+  // overwrite them; the edit is shown right away and kept until they're read
+  private edit(change: (current: AppSettings) => unknown) {
+    const edit: SettingsEdit = current => validateSettings(migrateSettings(change(current)));
+    if (!this.loaded) {
+      this.pending.push(edit);
+      this.apply(edit(this.settings));
+      this.load();
+      return;
+    }
+    const settings = edit(this.settings);
+    this.apply(settings);
+    this.persist(settings);
+  }
+
+  private apply(settings: AppSettings) {
+    const previous = this.settings;
+    this.settings = settings;
+    this.listeners.forEach(listener => listener(settings, previous));
+  }
+
+  private async persist(settings: AppSettings) {
+    try {
+      await storage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Failed to save settings:', error);
+    }
+  }
+}
+
+export const settingsStore = new SettingsStore();
@@ -0,0 +1,179 @@
+import { Platform } from 'react-native';
+import { AppSettings, SETTINGS_VERSION, isRecord, migrateSettings, validateSettings } from './settingsStore';
+
+// Files, the share sheet and the document picker are only needed on native; web uses the browser's own
+let FileSystem: typeof import('expo-file-system') | null = null;
+let Sharing: typeof import('expo-sharing') | null = null;
+let DocumentPicker: typeof import('expo-document-picker') | null = null;
+if (Platform.OS !== 'web') {
+  FileSystem = require('expo-file-system');
+  Sharing = require('expo-sharing');
+  DocumentPicker = require('expo-document-picker');
+}
+
+const EXPORT_FORMAT = 'twitchvoice-settings';
+
+export interface SettingsExport {
+  format: typeof EXPORT_FORMAT;
+  exportedAt: string;
+  settings: AppSettings;
+}
+
+export interface SettingsChange {
+  // e.g. "filters.ignoredUsers" or "channelProfiles.xqc"
+  path: string;
+  from: unknown;
+  to: unknown;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export function exportSettings(settings: AppSettings): string {
+  const payload: SettingsExport = {
+    format: EXPORT_FORMAT,
+    exportedAt: new Date().toISOString(),
+    settings,
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+// Throws with a message that can be shown to the user as-is
+export function parseSettingsImport(text: string): AppSettings {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch (error) {
+    console.log('Settings import is not JSON:', error);
+    throw new Error('File is not valid JSON');
+  }
+  if (!isRecord(payload) || payload.format !== EXPORT_FORMAT || !isRecord(payload.settings)) {
+    throw new Error('File is not a settings export');
+  }
+  const version = payload.settings.version;
+  if (typeof version !== 'number') {
+    throw new Error('Settings export has no version');
+  }
+  if (version > SETTINGS_VERSION) {
+    throw new Error('Settings were exported from a newer version of the app');
+  }
+  return validateSettings(migrateSettings(payload.settings));
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// One entry per changed setting, or per changed channel profile / voice pin
+export function diffSettings(current: AppSettings, incoming: AppSettings): SettingsChange[] {
+  const changes: SettingsChange[] = [];
+  for (const section of Object.keys(incoming) as (keyof AppSettings)[]) {
+    if (section === 'version') continue;
+    const before = (current[section] ?? {}) as Record<string, unknown>;
+    const after = (incoming[section] ?? {}) as Record<string, unknown>;
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      if (!same(before[key], after[key])) {
+        changes.push({ path: `${section}.${key}`, from: before[key], to: after[key] });
+      }
+    }
+  }
+  return changes;
+}
+
+const union = (a: string[], b: string[]) => [...new Set([...a, ...b])];
+
+// Take the imported values, but keep our own channel profiles, voice pins, filter lists,
+// notified channels, favorites, groups and voice nicknames alongside theirs
+export function mergeSettings(current: AppSettings, incoming: AppSettings): AppSettings {
+  return {
+    ...incoming,
+    voice: {
+      ...incoming.voice,
+      pins: { ...current.voice.pins, ...incoming.voice.pins },
+    },
+    filters: {
+      ...incoming.filters,
+      ignoredUsers: union(current.filters.ignoredUsers, incoming.filters.ignoredUsers),
+      ignoredPrefixes: union(current.filters.ignoredPrefixes, incoming.filters.ignoredPrefixes),
+      includeKeywords: union(current.filters.includeKeywords, incoming.filters.includeKeywords),
+      excludeKeywords: union(current.filters.excludeKeywords, incoming.filters.excludeKeywords),
+    },
+    notifications: {
+      ...incoming.notifications,
+      channels: union(current.notifications.channels, incoming.notifications.channels),
+    },
+    streamerList: {
+      ...incoming.streamerList,
+      favorites: union(current.streamerList.favorites, incoming.streamerList.favorites),
+      // Groups with the same id are taken from the import
+      groups: [
+        ...current.streamerList.groups.filter(g => !incoming.streamerList.groups.some(i => i.id === g.id)),
+        ...incoming.streamerList.groups,
+      ],
+      aliases: Object.fromEntries(
+        Object.keys({ ...current.streamerList.aliases, ...incoming.streamerList.aliases }).map(login => [
+          login,
+          union(current.streamerList.aliases[login] ?? [], incoming.streamerList.aliases[login] ?? []),
+        ])
+      ),
+    },
+    channelProfiles: { ...current.channelProfiles, ...incoming.channelProfiles },
+  };
+}
+
+// Web downloads a file; native writes one to the cache and hands it to the share sheet
+export async function saveSettingsFile(json: string): Promise<void> {
+  const filename = `twitchvoice-settings-${new Date().toISOString().slice(0, 10)}.json`;
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // Revoking straight away cancels the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    return;
+  }
+  if (!(await Sharing!.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  const file = new FileSystem!.File(FileSystem!.Paths.cache, filename);
+  file.create({ overwrite: true });
+  file.write(json);
+  await Sharing!.shareAsync(file.uri, {
+    mimeType: 'application/json',
+    UTI: 'public.json',
+    dialogTitle: 'Share settings',
+  });
+}
+
+// Resolves null if the picker is closed without a file
+export async function pickSettingsFile(): Promise<string | null> {
+  if (Platform.OS !== 'web') {
+    const result = await DocumentPicker!.getDocumentAsync({
+      type: ['application/json', 'text/plain'],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled) return null;
+    try {
+      return await new FileSystem!.File(result.assets[0].uri).text();
+    } catch (error) {
+      console.error('Failed to read settings file:', error);
+      throw new Error('Failed to read file');
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'application/json,.json';
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      file.text().then(resolve, () => reject(new Error('Failed to read file')));
+    };
+    input.addEventListener('cancel', () => resolve(null));
+    input.click();
+  });
+}
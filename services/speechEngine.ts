@@ -0,0 +1,118 @@
+import { Platform } from 'react-native';
+import * as Speech from 'expo-speech';
+
+export interface TtsVoice {
+  // voiceURI on web, identifier on native
+  id: string;
+  name: string;
+  language: string;
+}
+
+export interface SpeakOptions {
+  voiceId?: string;
+  rate?: number;
+  pitch?: number;
+}
+
+export interface SpeechEngine {
+  isAvailable(): boolean;
+  getVoices(): Promise<TtsVoice[]>;
+  // onDone fires once, whether the utterance finished, failed or was stopped
+  speak(text: string, options: SpeakOptions, onDone: () => void): void;
+  stop(): void;
+}
+
+const webEngine: SpeechEngine = {
+  isAvailable() {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window;
+  },
+
+  getVoices() {
+    if (!this.isAvailable()) return Promise.resolve([]);
+    // Chrome fills the list asynchronously the first time
+    return new Promise(resolve => {
+      const read = () => window.speechSynthesis.getVoices().map(v => ({
+        id: v.voiceURI,
+        name: v.name,
+        language: v.lang,
+      }));
+      const voices = read();
+      if (voices.length > 0) {
+        resolve(voices);
+        return;
+      }
+      const onChange = () => {
+        window.speechSynthesis.removeEventListener('voiceschanged', onChange);
+        resolve(read());
+      };
+      window.speechSynthesis.addEventListener('voiceschanged', onChange);
+      setTimeout(onChange, 2000);
+    });
+  },
+
+  speak(text, options, onDone) {
+    if (!this.isAvailable()) {
+      onDone();
+      return;
+    }
+    let finished = false;
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      onDone();
+    };
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = options.rate ?? 1;
+    utterance.pitch = options.pitch ?? 1;
+    if (options.voiceId) {
+      const voice = window.speechSynthesis.getVoices().find(v => v.voiceURI === options.voiceId);
+      if (voice) utterance.voice = voice;
+    }
+    utterance.onend = finish;
+    utterance.onerror = finish;
+    window.speechSynthesis.speak(utterance);
+  },
+
+  stop() {
+    if (this.isAvailable()) {
+      window.speechSynthesis.cancel();
+    }
+  },
+};
+
+const nativeEngine: SpeechEngine = {
+  isAvailable() {
+    return true;
+  },
+
+  async getVoices() {
+    const voices = await Speech.getAvailableVoicesAsync();
+    return voices.map(v => ({ id: v.identifier, name: v.name, language: v.language }));
+  },
+
+  speak(text, options, onDone) {
+    let finished = false;
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      onDone();
+    };
+
+    Speech.speak(text, {
+      rate: options.rate ?? 1,
+      pitch: options.pitch ?? 1,
+      voice: options.voiceId,
+      language: options.voiceId ? undefined : 'en-US',
+      onDone: finish,
+      onStopped: finish,
+      onError: finish,
+    });
+  },
+
+  stop() {
+    Speech.stop();
+  },
+};
+
+export const speechEngine: SpeechEngine = Platform.OS === 'web' ? webEngine : nativeEngine;
@@ -0,0 +1,389 @@
+import { Platform } from 'react-native';
+
+// Only import the native recognizer for native platforms; browsers have the Web Speech API
+let NativeRecognition: typeof import('expo-speech-recognition') | null = null;
+if (Platform.OS !== 'web') {
+  NativeRecognition = require('expo-speech-recognition');
+}
+
+export type RecognitionErrorCode =
+  | 'not-allowed'
+  | 'unavailable'
+  | 'language-not-supported'
+  | 'no-speech'
+  | 'network'
+  | 'audio-capture'
+  | 'aborted'
+  | 'unknown';
+
+export interface RecognitionOptions {
+  // BCP 47, e.g. "en-US"
+  lang?: string;
+  interimResults?: boolean;
+  // Keep listening after the first pause instead of stopping with one result
+  continuous?: boolean;
+  maxAlternatives?: number;
+  // Words the recognizer should expect, e.g. channel names; ignored where unsupported
+  contextualStrings?: string[];
+}
+
+export interface RecognitionResult {
+  // Best guess first
+  alternatives: string[];
+  isFinal: boolean;
+}
+
+export interface RecognitionError {
+  code: RecognitionErrorCode;
+  // Can be shown to the user as-is
+  message: string;
+}
+
+export interface RecognitionHandlers {
+  onResult: (result: RecognitionResult) => void;
+  onError?: (error: RecognitionError) => void;
+  // Fires once per session, after its last result or error
+  onEnd?: () => void;
+}
+
+export interface RecognitionSession {
+  // Stop listening but still deliver what was heard
+  stop(): void;
+  // Stop listening and drop anything pending
+  abort(): void;
+}
+
+export interface SpeechRecognitionBackend {
+  name: string;
+  isAvailable(): boolean;
+  // Resolves false if the user said no or the platform can't ask
+  requestPermission(): Promise<boolean>;
+  start(options: RecognitionOptions, handlers: RecognitionHandlers): RecognitionSession;
+}
+
+export const RECOGNITION_LANGUAGES: { code: string; label: string }[] = [
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'es-ES', label: 'Español' },
+  { code: 'pt-BR', label: 'Português' },
+  { code: 'fr-FR', label: 'Français' },
+  { code: 'de-DE', label: 'Deutsch' },
+  { code: 'ja-JP', label: '日本語' },
+];
+
+const ERROR_MESSAGES: Record<RecognitionErrorCode, string> = {
+  'not-allowed': 'Microphone access was denied',
+  unavailable: 'Voice recognition not available on this platform',
+  'language-not-supported': 'Voice recognition does not support this language here',
+  'no-speech': 'Didn\'t hear anything',
+  network: 'Voice recognition needs a network connection',
+  'audio-capture': 'No microphone found',
+  aborted: 'Stopped listening',
+  unknown: 'Voice recognition failed',
+};
+
+export function recognitionError(code: RecognitionErrorCode): RecognitionError {
+  return { code, message: ERROR_MESSAGES[code] };
+}
+
+const noopSession: RecognitionSession = { stop() {}, abort() {} };
+
+const getWebRecognition = (): any =>
+  typeof window === 'undefined'
+    ? null
+    : (window as any).SpeechRecognition ?? (window as any).webkitSpeechRecognition ?? null;
+
+// Web Speech error names, see SpeechRecognitionErrorEvent.error
+const WEB_ERRORS: Record<string, RecognitionErrorCode> = {
+  'not-allowed': 'not-allowed',
+  'service-not-allowed': 'not-allowed',
+  'language-not-supported': 'language-not-supported',
+  'no-speech': 'no-speech',
+  network: 'network',
+  'audio-capture': 'audio-capture',
+  aborted: 'aborted',
+};
+
+export const webRecognitionBackend: SpeechRecognitionBackend = {
+  name: 'web',
+
+  isAvailable() {
+    return !!getWebRecognition();
+  },
+
+  // The browser asks for the microphone itself when listening starts
+  async requestPermission() {
+    return true;
+  },
+
+  start(options, handlers) {
+    const Recognition = getWebRecognition();
+    const recognition = new Recognition();
+    recognition.lang = options.lang ?? 'en-US';
+    recognition.continuous = !!options.continuous;
+    recognition.interimResults = !!options.interimResults;
+    recognition.maxAlternatives = options.maxAlternatives ?? 1;
+
+    recognition.onresult = (event: any) => {
+      // Continuous sessions keep every earlier result in the list; only report the new ones
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        handlers.onResult({
+          alternatives: Array.from(result, (alternative: any) => alternative.transcript),
+          isFinal: result.isFinal,
+        });
+      }
+    };
+    recognition.onnomatch = () => handlers.onError?.(recognitionError('no-speech'));
+    recognition.onerror = (event: any) => handlers.onError?.(recognitionError(WEB_ERRORS[event.error] ?? 'unknown'));
+    recognition.onend = () => handlers.onEnd?.();
+
+    try {
+      recognition.start();
+    } catch (error) {
+      console.error('Failed to start speech recognition:', error);
+      handlers.onError?.(recognitionError('unknown'));
+      handlers.onEnd?.();
+      return noopSession;
+    }
+    return {
+      stop: () => recognition.stop(),
+      abort: () => recognition.abort(),
+    };
+  },
+};
+
+// expo-speech-recognition error codes
+const NATIVE_ERRORS: Record<string, RecognitionErrorCode> = {
+  'not-allowed': 'not-allowed',
+  'service-not-allowed': 'unavailable',
+  'language-not-supported': 'language-not-supported',
+  'no-speech': 'no-speech',
+  'speech-timeout': 'no-speech',
+  network: 'network',
+  'audio-capture': 'audio-capture',
+  aborted: 'aborted',
+};
+
+export const nativeRecognitionBackend: SpeechRecognitionBackend = {
+  name: 'native',
+
+  isAvailable() {
+    return !!NativeRecognition && NativeRecognition.ExpoSpeechRecognitionModule.isRecognitionAvailable();
+  },
+
+  async requestPermission() {
+    if (!NativeRecognition) return false;
+    const module = NativeRecognition.ExpoSpeechRecognitionModule;
+    const current = await module.getPermissionsAsync();
+    if (current.granted) return true;
+    if (!current.canAskAgain) return false;
+    const requested = await module.requestPermissionsAsync();
+    return requested.granted;
+  },
+
+  start(options, handlers) {
+    const module = NativeRecognition!.ExpoSpeechRecognitionModule;
+    const subscriptions = [
+      module.addListener('result', event => {
+        handlers.onResult({
+          alternatives: event.results.map(result => result.transcript),
+          isFinal: event.isFinal,
+        });
+      }),
+      module.addListener('nomatch', () => handlers.onError?.(recognitionError('no-speech'))),
+      module.addListener('error', event => handlers.onError?.(recognitionError(NATIVE_ERRORS[event.error] ?? 'unknown'))),
+      module.addListener('end', () => {
+        subscriptions.forEach(subscription => subscription.remove());
+        handlers.onEnd?.();
+      }),
+    ];
+
+    module.start({
+      lang: options.lang ?? 'en-US',
+      interimResults: !!options.interimResults,
+      continuous: !!options.continuous,
+      maxAlternatives: options.maxAlternatives ?? 1,
+      contextualStrings: options.contextualStrings,
+      // Keep audio on the device wherever the device can manage it
+      requiresOnDeviceRecognition: module.supportsOnDeviceRecognition(),
+      addsPunctuation: false,
+    });
+    return {
+      stop: () => module.stop(),
+      abort: () => module.abort(),
+    };
+  },
+};
+
+// Scripted recognizer for tests: check what was started, then play results back
+export class FakeRecognitionBackend implements SpeechRecognitionBackend {
+  name = 'fake';
+  available = true;
+  permission = true;
+  sessions: { options: RecognitionOptions; handlers: RecognitionHandlers; ended: boolean }[] = [];
+
+  isAvailable() {
+    return this.available;
+  }
+
+  async requestPermission() {
+    return this.permission;
+  }
+
+  start(options: RecognitionOptions, handlers: RecognitionHandlers): RecognitionSession {
+    const session = { options, handlers, ended: false };
+    this.sessions.push(session);
+    const end = () => {
+      if (session.ended) return;
+      session.ended = true;
+      handlers.onEnd?.();
+    };
+    return {
+      stop: end,
+      abort: () => {
+        if (session.ended) return;
+        handlers.onError?.(recognitionError('aborted'));
+        end();
+      },
+    };
+  }
+
+  private get current() {
+    const session = this.sessions[this.sessions.length - 1];
+    if (!session || session.ended) throw new Error('Failed to emit: no recognition session is running');
+    return session;
+  }
+
+  emitResult(alternatives: string | string[], isFinal = true) {
+    this.current.handlers.onResult({
+      alternatives: Array.isArray(alternatives) ? alternatives : [alternatives],
+      isFinal,
+    });
+  }
+
+  emitError(code: RecognitionErrorCode) {
+    this.current.handlers.onError?.(recognitionError(code));
+  }
+
+  end() {
+    const session = this.current;
+    session.ended = true;
+    session.handlers.onEnd?.();
+  }
+}
+
+// How long to wait for an aborted session to end before starting the next one anyway
+const END_TIMEOUT_MS = 2000;
+
+interface ActiveSession {
+  session: RecognitionSession;
+  // Resolves when the session's end has been reported
+  ended: Promise<void>;
+}
+
+// One recognition session at a time, since neither platform can run two
+class SpeechRecognizer {
+  private backend: SpeechRecognitionBackend;
+  private active: ActiveSession | null = null;
+  // Serializes start() so overlapping calls can't both take the microphone
+  private startQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(backend: SpeechRecognitionBackend) {
+    this.backend = backend;
+  }
+
+  // Swap the backend, e.g. for a fake in tests
+  setBackend(backend: SpeechRecognitionBackend) {
+    this.active?.session.abort();
+    this.active = null;
+    this.backend = backend;
+  }
+
+  isAvailable(): boolean {
+    return this.backend.isAvailable();
+  }
+
+  isListening(): boolean {
+    return this.active !== null;
+  }
+
+  // Aborts whatever session was running. Failures to start are reported through the
+  // handlers like any other error, so callers only need onError and onEnd.
+  start(options: RecognitionOptions, handlers: RecognitionHandlers): Promise<RecognitionSession> {
+    const started = this.startQueue.then(() => this.startNow(options, handlers));
+    this.startQueue = started.catch(() => {});
+    return started;
+  }
+
+  // The native module reports every session through the same events, so the next session
+  // may only start once the aborted one's end has come through
+  private async stopActive() {
+    const active = this.active;
+    if (!active) return;
+    this.active = null;
+    active.session.abort();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<void>(resolve => {
+      timer = setTimeout(() => {
+        console.log('Speech recognition session did not end in time, starting the next one anyway');
+        resolve();
+      }, END_TIMEOUT_MS);
+    });
+    await Promise.race([active.ended, timedOut]);
+    clearTimeout(timer);
+  }
+
+  private async startNow(options: RecognitionOptions, handlers: RecognitionHandlers): Promise<RecognitionSession> {
+    await this.stopActive();
+
+    const backend = this.backend;
+    const fail = (code: RecognitionErrorCode) => {
+      handlers.onError?.(recognitionError(code));
+      handlers.onEnd?.();
+      return noopSession;
+    };
+    if (!backend.isAvailable()) return fail('unavailable');
+    let granted = false;
+    try {
+      granted = await backend.requestPermission();
+    } catch (error) {
+      console.error('Failed to request microphone permission:', error);
+    }
+    if (!granted) return fail('not-allowed');
+
+    let ended = false;
+    let resolveEnded = () => {};
+    const active: ActiveSession = {
+      session: noopSession,
+      ended: new Promise<void>(resolve => {
+        resolveEnded = resolve;
+      }),
+    };
+    active.session = backend.start(options, {
+      onResult: result => {
+        if (!ended) handlers.onResult(result);
+      },
+      onError: error => {
+        if (ended) return;
+        if (error.code !== 'aborted' && error.code !== 'no-speech') {
+          console.log(`Speech recognition error (${backend.name}):`, error.code);
+        }
+        handlers.onError?.(error);
+      },
+      onEnd: () => {
+        if (ended) return;
+        ended = true;
+        resolveEnded();
+        if (this.active === active) this.active = null;
+        handlers.onEnd?.();
+      },
+    });
+    if (!ended) this.active = active;
+    return active.session;
+  }
+}
+
+export const speechRecognizer = new SpeechRecognizer(
+  Platform.OS === 'web' ? webRecognitionBackend : nativeRecognitionBackend
+);
@@ -0,0 +1,31 @@
+import { Platform } from 'react-native';
+
+// Only import AsyncStorage for native platforms
+let AsyncStorage: any = null;
+if (Platform.OS !== 'web') {
+  AsyncStorage = require('@react-native-async-storage/async-storage').default;
+}
+
+// Storage wrapper that uses localStorage on web for reliability
+export const storage = {
+  async getItem(key: string): Promise<string | null> {
+    if (Platform.OS === 'web' && typeof localStorage !== 'undefined') {
+      return localStorage.getItem(key);
+    }
+    return AsyncStorage?.getItem(key) ?? null;
+  },
+  async setItem(key: string, value: string): Promise<void> {
+    if (Platform.OS === 'web' && typeof localStorage !== 'undefined') {
+      localStorage.setItem(key, value);
+      return;
+    }
+    await AsyncStorage?.setItem(key, value);
+  },
+  async removeItem(key: string): Promise<void> {
+    if (Platform.OS === 'web' && typeof localStorage !== 'undefined') {
+      localStorage.removeItem(key);
+      return;
+    }
+    await AsyncStorage?.removeItem(key);
+  },
+};
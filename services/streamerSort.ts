@@ -0,0 +1,90 @@
+import { StreamerDisplay } from '../types/twitch';
+
+export type StreamerSortMode = 'viewers' | 'uptime' | 'recent' | 'category' | 'name';
+
+export const SORT_MODES: { mode: StreamerSortMode; label: string }[] = [
+  { mode: 'viewers', label: 'Viewers' },
+  { mode: 'uptime', label: 'Uptime' },
+  { mode: 'recent', label: 'Recently watched' },
+  { mode: 'category', label: 'Category' },
+  { mode: 'name', label: 'Name' },
+];
+
+export interface StreamerGroup {
+  id: string;
+  name: string;
+  // Lowercase logins
+  channels: string[];
+}
+
+export interface StreamerSection {
+  // 'favorites', 'live', 'offline' or 'group:<id>'
+  key: string;
+  title: string;
+  data: StreamerDisplay[];
+  liveCount: number;
+}
+
+// Last time each channel was opened, by lowercase login
+export type WatchHistory = Record<string, number>;
+
+const byName = (a: StreamerDisplay, b: StreamerDisplay) => a.display_name.localeCompare(b.display_name);
+
+const startedAt = (s: StreamerDisplay) => (s.started_at ? Date.parse(s.started_at) : Infinity);
+
+// Live channels first in every mode except name and recently watched; offline ones fall back to name
+export function sortStreamers(
+  streamers: StreamerDisplay[],
+  mode: StreamerSortMode,
+  history: WatchHistory = {}
+): StreamerDisplay[] {
+  const lastWatched = (s: StreamerDisplay) => history[s.login.toLowerCase()] ?? 0;
+  const compareLive = (a: StreamerDisplay, b: StreamerDisplay): number => {
+    switch (mode) {
+      case 'uptime':
+        // Longest running first
+        return startedAt(a) - startedAt(b);
+      case 'category':
+        return (a.game_name || '').localeCompare(b.game_name || '') || (b.viewer_count || 0) - (a.viewer_count || 0);
+      default:
+        return (b.viewer_count || 0) - (a.viewer_count || 0);
+    }
+  };
+
+  return [...streamers].sort((a, b) => {
+    if (mode === 'name') return byName(a, b);
+    if (mode === 'recent') return lastWatched(b) - lastWatched(a) || Number(b.is_live) - Number(a.is_live) || byName(a, b);
+    if (a.is_live !== b.is_live) return a.is_live ? -1 : 1;
+    return a.is_live ? compareLive(a, b) || byName(a, b) : byName(a, b);
+  });
+}
+
+// Favorites, then each group, then everything else split into live and offline. A channel
+// is listed once, in the first section it belongs to.
+export function buildStreamerSections(
+  streamers: StreamerDisplay[],
+  options: { favorites: string[]; groups: StreamerGroup[]; sortMode: StreamerSortMode; history?: WatchHistory }
+): StreamerSection[] {
+  const sorted = sortStreamers(streamers, options.sortMode, options.history);
+  const placed = new Set<string>();
+  const sections: StreamerSection[] = [];
+
+  const take = (key: string, title: string, matches: (s: StreamerDisplay) => boolean, keepEmpty = false) => {
+    const data = sorted.filter(s => !placed.has(s.id) && matches(s));
+    data.forEach(s => placed.add(s.id));
+    if (data.length > 0 || keepEmpty) {
+      sections.push({ key, title, data, liveCount: data.filter(s => s.is_live).length });
+    }
+  };
+
+  const favorites = new Set(options.favorites);
+  take('favorites', 'Favorites', s => favorites.has(s.login.toLowerCase()));
+  options.groups.forEach(group => {
+    const members = new Set(group.channels);
+    // Keep empty groups visible so they can be filled or deleted
+    take(`group:${group.id}`, group.name, s => members.has(s.login.toLowerCase()), true);
+  });
+  take('live', 'Live', s => s.is_live);
+  take('offline', 'Offline', () => true);
+  return sections;
+}
@@ -0,0 +1,143 @@
+import { ChatMessage } from '../types/twitch';
+import { getUsersByIds } from './twitchApi';
+
+export type TtsRoleFilter = 'subscriber' | 'vip' | 'moderator';
+
+export interface TtsFilterRules {
+  // Lowercase logins that are never read out
+  ignoredUsers: string[];
+  // Messages starting with any of these are skipped, e.g. "!" for bot commands
+  ignoredPrefixes: string[];
+  // Empty means everyone; otherwise only chatters with one of these roles
+  allowedRoles: TtsRoleFilter[];
+  // Plain words match case-insensitively; "/pattern/flags" is a regex
+  includeKeywords: string[];
+  excludeKeywords: string[];
+  // 0 to disable
+  minAccountAgeDays: number;
+  mentionsOnly: boolean;
+}
+
+export const DEFAULT_TTS_FILTERS: TtsFilterRules = {
+  ignoredUsers: ['nightbot', 'streamelements', 'streamlabs', 'moobot', 'fossabot', 'wizebot', 'soundalerts'],
+  ignoredPrefixes: ['!'],
+  allowedRoles: [],
+  includeKeywords: [],
+  excludeKeywords: [],
+  minAccountAgeDays: 0,
+  mentionsOnly: false,
+};
+
+export interface TtsFilterContext {
+  // The logged-in user, for mentions
+  selfLogin?: string;
+  // When the chatter's account was created, if known
+  accountCreatedAt?: Date | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isMention(message: string, login: string | undefined): boolean {
+  if (!login) return false;
+  return new RegExp(`(^|\\W)@?${login}(\\W|$)`, 'i').test(message);
+}
+
+// Invalid patterns match nothing rather than throwing on every message
+export function compileKeyword(keyword: string): RegExp | null {
+  const regex = keyword.match(/^\/(.+)\/([a-z]*)$/);
+  try {
+    // Compiled patterns are reused, so drop the flags that make test() remember its last match
+    if (regex) return new RegExp(regex[1], regex[2].replace(/[gy]/g, ''));
+    const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|\\W)${escaped}(\\W|$)`, 'i');
+  } catch (error) {
+    console.log('Invalid TTS keyword pattern:', keyword, error);
+    return null;
+  }
+}
+
+// Keyed by the settings' keyword lists, so each list is compiled once rather than per message
+const compiledKeywords = new WeakMap<string[], RegExp[]>();
+
+function compileKeywords(keywords: string[]): RegExp[] {
+  let compiled = compiledKeywords.get(keywords);
+  if (!compiled) {
+    compiled = keywords.map(compileKeyword).filter((regex): regex is RegExp => regex !== null);
+    compiledKeywords.set(keywords, compiled);
+  }
+  return compiled;
+}
+
+function matchesAny(text: string, keywords: string[]): boolean {
+  return compileKeywords(keywords).some(regex => regex.test(text));
+}
+
+// Returns why a message should stay silent, or null when it should be read
+export function getFilterReason(
+  msg: ChatMessage,
+  rules: TtsFilterRules,
+  context: TtsFilterContext = {}
+): string | null {
+  const login = (msg.login || msg.username).toLowerCase();
+  const text = msg.message.trim();
+
+  if (rules.ignoredUsers.includes(login)) return 'ignored user';
+  if (rules.ignoredPrefixes.some(prefix => prefix && text.startsWith(prefix))) return 'ignored prefix';
+
+  // The broadcaster always passes the role check
+  if (rules.allowedRoles.length > 0 && !msg.roles?.broadcaster) {
+    const hasRole = rules.allowedRoles.some(role => msg.roles?.[role]);
+    if (!hasRole) return 'role';
+  }
+
+  if (rules.mentionsOnly && !isMention(text, context.selfLogin)) return 'not a mention';
+  if (rules.excludeKeywords.length > 0 && matchesAny(text, rules.excludeKeywords)) return 'excluded keyword';
+  if (rules.includeKeywords.length > 0 && !matchesAny(text, rules.includeKeywords)) return 'missing keyword';
+
+  if (rules.minAccountAgeDays > 0) {
+    // Unknown ages are let through so a failed lookup doesn't mute chat
+    const createdAt = context.accountCreatedAt;
+    if (createdAt && Date.now() - createdAt.getTime() < rules.minAccountAgeDays * DAY_MS) {
+      return 'account too new';
+    }
+  }
+
+  return null;
+}
+
+// Account creation dates, looked up in batches since chat can bring many new users at once
+const createdAtCache = new Map<string, Promise<Date | null>>();
+let pendingLookups = new Map<string, (date: Date | null) => void>();
+let lookupTimer: ReturnType<typeof setTimeout> | null = null;
+const LOOKUP_DELAY = 250;
+
+async function flushLookups(token: string) {
+  const batch = pendingLookups;
+  pendingLookups = new Map();
+  lookupTimer = null;
+
+  try {
+    const users = await getUsersByIds(token, [...batch.keys()]);
+    for (const u of users) {
+      batch.get(u.id)?.(u.created_at ? new Date(u.created_at) : null);
+      batch.delete(u.id);
+    }
+  } catch (error) {
+    console.error('Failed to look up account ages:', error);
+    // Let them be retried next time the user chats
+    batch.forEach((_resolve, userId) => createdAtCache.delete(userId));
+  }
+  batch.forEach(resolve => resolve(null));
+}
+
+export function getAccountCreatedAt(token: string, userId: string): Promise<Date | null> {
+  let cached = createdAtCache.get(userId);
+  if (!cached) {
+    cached = new Promise(resolve => pendingLookups.set(userId, resolve));
+    createdAtCache.set(userId, cached);
+    if (!lookupTimer) {
+      lookupTimer = setTimeout(() => flushLookups(token), LOOKUP_DELAY);
+    }
+  }
+  return cached;
+}
@@ -0,0 +1,175 @@
+import { MessageFragment } from '../types/twitch';
+import { getSpeakableText, EmoteSpeechMode } from './emotes';
+
+export interface TtsNormalizationConfig {
+  emotes: boolean;
+  emoteMode: EmoteSpeechMode;
+  urls: boolean;
+  copypasta: boolean;
+  repeatedCharacters: boolean;
+  slang: boolean;
+  numbers: boolean;
+  // Characters per message, 0 for no limit
+  maxLength: number;
+}
+
+export const DEFAULT_NORMALIZATION: TtsNormalizationConfig = {
+  emotes: true,
+  emoteMode: 'name',
+  urls: true,
+  copypasta: true,
+  repeatedCharacters: true,
+  slang: true,
+  numbers: true,
+  maxLength: 200,
+};
+
+// "https://clips.twitch.tv/abc" -> "link to clips.twitch.tv"
+export function replaceUrls(text: string): string {
+  return text.replace(
+    /\b(?:https?:\/\/)?(?:www\.)?((?:[a-z0-9-]+\.)+[a-z]{2,})(?::\d+)?(?:\/\S*)?/gi,
+    (match, domain: string) => {
+      // Only treat bare domains as links when they had a scheme or a path,
+      // so "hello.world" style typos are left alone
+      if (!/^https?:\/\//i.test(match) && !match.includes('/') && !/^www\./i.test(match)) {
+        return match;
+      }
+      return `link to ${domain.toLowerCase()}`;
+    }
+  );
+}
+
+// "soooooo" -> "soo", "!!!!!!" -> "!"
+export function collapseRepeatedCharacters(text: string): string {
+  return text
+    .replace(/([^\w\s])\1+/g, '$1')
+    .replace(/([a-z])\1{2,}/gi, '$1$1');
+}
+
+const MAX_PHRASE_WORDS = 8;
+
+// "lol lol lol" -> "lol", "so true so true so true" -> "so true"
+export function collapseCopypasta(text: string): string {
+  const words = text.split(/\s+/).filter(Boolean);
+  const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+  let i = 0;
+  while (i < words.length) {
+    let collapsed = false;
+    for (let n = Math.min(MAX_PHRASE_WORDS, Math.floor((words.length - i) / 2)); n >= 1; n--) {
+      let repeats = true;
+      for (let k = 0; k < n; k++) {
+        if (!same(words[i + k], words[i + n + k])) {
+          repeats = false;
+          break;
+        }
+      }
+      if (repeats) {
+        words.splice(i + n, n);
+        collapsed = true;
+        break;
+      }
+    }
+    if (!collapsed) i++;
+  }
+
+  return words.join(' ');
+}
+
+const SLANG: Record<string, string> = {
+  afk: 'away from keyboard',
+  brb: 'be right back',
+  btw: 'by the way',
+  fr: 'for real',
+  gg: 'good game',
+  gl: 'good luck',
+  gn: 'good night',
+  hf: 'have fun',
+  idk: "I don't know",
+  imo: 'in my opinion',
+  irl: 'in real life',
+  lmao: 'laughing',
+  lmk: 'let me know',
+  lol: 'laughing out loud',
+  ngl: 'not gonna lie',
+  np: 'no problem',
+  omg: 'oh my god',
+  pls: 'please',
+  plz: 'please',
+  ppl: 'people',
+  rn: 'right now',
+  smh: 'shaking my head',
+  tbh: 'to be honest',
+  thx: 'thanks',
+  ty: 'thank you',
+  u: 'you',
+  ur: 'your',
+  wp: 'well played',
+  wtf: 'what the heck',
+};
+
+export function expandSlang(text: string, dictionary: Record<string, string> = SLANG): string {
+  return text.replace(/\b[a-z]+\b/gi, word => dictionary[word.toLowerCase()] ?? word);
+}
+
+const CURRENCIES: Record<string, [string, string]> = {
+  '$': ['dollar', 'dollars'],
+  '€': ['euro', 'euros'],
+  '£': ['pound', 'pounds'],
+};
+
+const MAGNITUDES: Record<string, string> = {
+  k: 'thousand',
+  m: 'million',
+  b: 'billion',
+};
+
+// "$5.50" -> "5 dollars 50 cents", "2.5k" -> "2.5 thousand", "50%" -> "50 percent"
+export function speakNumbers(text: string): string {
+  return text
+    .replace(/([$€£])\s?(\d+(?:[.,]\d{3})*)(?:\.(\d{1,2}))?([kmb])?\b/gi,
+      (_match, symbol: string, whole: string, cents: string | undefined, magnitude: string | undefined) => {
+        const [singular, plural] = CURRENCIES[symbol];
+        const amount = whole.replace(/,/g, '');
+        if (magnitude) {
+          return `${amount}${cents ? `.${cents}` : ''} ${MAGNITUDES[magnitude.toLowerCase()]} ${plural}`;
+        }
+        const unit = amount === '1' ? singular : plural;
+        const centValue = cents ? parseInt(cents.padEnd(2, '0'), 10) : 0;
+        return centValue > 0
+          ? `${amount} ${unit} ${centValue} cent${centValue === 1 ? '' : 's'}`
+          : `${amount} ${unit}`;
+      })
+    .replace(/\b(\d+(?:\.\d+)?)([kmb])\b/gi,
+      (_match, amount: string, magnitude: string) => `${amount} ${MAGNITUDES[magnitude.toLowerCase()]}`)
+    .replace(/(\d)\s?%/g, '$1 percent')
+    // Long digit strings are usually IDs or spam; don't read them out digit by digit
+    .replace(/\b\d{10,}\b/g, 'a long number');
+}
+
+// Cut at a word boundary so the engine doesn't read half a word
+export function limitLength(text: string, maxLength: number): string {
+  if (maxLength <= 0 || text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trim()}, and so on`;
+}
+
+// Turn a chat message into what the TTS engine should say, running only the enabled steps
+export function normalizeForSpeech(
+  fragments: MessageFragment[],
+  config: TtsNormalizationConfig = DEFAULT_NORMALIZATION
+): string {
+  let text = config.emotes
+    ? getSpeakableText(fragments, config.emoteMode)
+    : fragments.map(f => f.text).join('');
+
+  if (config.urls) text = replaceUrls(text);
+  if (config.copypasta) text = collapseCopypasta(text);
+  if (config.repeatedCharacters) text = collapseRepeatedCharacters(text);
+  if (config.slang) text = expandSlang(text);
+  if (config.numbers) text = speakNumbers(text);
+  text = limitLength(text.replace(/\s+/g, ' ').trim(), config.maxLength);
+
+  return text;
+}
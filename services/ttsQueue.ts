@@ -0,0 +1,215 @@
+import { speechEngine, SpeechEngine, SpeakOptions } from './speechEngine';
+
+export type TtsPriority = 'mention' | 'moderator' | 'subscriber' | 'normal';
+
+// What to throw away once the backlog is full
+export type TtsDropPolicy = 'oldest' | 'lowest-priority' | 'summarize';
+
+export interface TtsItem {
+  // Usually the chat message id, so deleted messages can be pulled back out
+  id: string;
+  text: string;
+  priority: TtsPriority;
+  options?: SpeakOptions;
+  enqueuedAt: number;
+}
+
+export interface TtsQueueConfig {
+  maxBacklog: number;
+  dropPolicy: TtsDropPolicy;
+}
+
+export interface TtsQueueSnapshot {
+  current: TtsItem | null;
+  pending: TtsItem[];
+  // Messages dropped since the last "skipped" announcement
+  skippedCount: number;
+  config: TtsQueueConfig;
+}
+
+type SnapshotListener = (snapshot: TtsQueueSnapshot) => void;
+
+const PRIORITY_RANK: Record<TtsPriority, number> = {
+  mention: 3,
+  moderator: 2,
+  subscriber: 1,
+  normal: 0,
+};
+
+const DEFAULT_CONFIG: TtsQueueConfig = {
+  maxBacklog: 10,
+  dropPolicy: 'summarize',
+};
+
+// Speaks one item at a time so the backlog stays under our control instead
+// of piling up inside speechSynthesis or expo-speech
+export class TtsQueue {
+  private engine: SpeechEngine;
+  private config: TtsQueueConfig = DEFAULT_CONFIG;
+  private defaults: SpeakOptions = {};
+  private pending: TtsItem[] = [];
+  private current: TtsItem | null = null;
+  private skippedCount = 0;
+  private listeners = new Set<SnapshotListener>();
+  // Bumped on every stop so a late onDone from an old utterance is ignored
+  private generation = 0;
+
+  constructor(engine: SpeechEngine = speechEngine) {
+    this.engine = engine;
+  }
+
+  configure(config: Partial<TtsQueueConfig>) {
+    this.config = { ...this.config, ...config };
+    this.enforceBacklog();
+    this.notify();
+  }
+
+  setDefaults(options: SpeakOptions) {
+    this.defaults = options;
+  }
+
+  enqueue(item: Omit<TtsItem, 'enqueuedAt'>) {
+    if (this.current?.id === item.id || this.pending.some(p => p.id === item.id)) return;
+
+    const entry: TtsItem = { ...item, enqueuedAt: Date.now() };
+    // Higher priorities jump ahead; equal priorities keep arrival order
+    const rank = PRIORITY_RANK[entry.priority];
+    const insertAt = this.pending.findIndex(p => PRIORITY_RANK[p.priority] < rank);
+    if (insertAt === -1) {
+      this.pending.push(entry);
+    } else {
+      this.pending.splice(insertAt, 0, entry);
+    }
+
+    this.enforceBacklog();
+    this.notify();
+    this.speakNext();
+  }
+
+  // Drop queued items, and stop the current one if it matches
+  remove(ids: string[]) {
+    if (ids.length === 0) return;
+    const idSet = new Set(ids);
+    const before = this.pending.length;
+    this.pending = this.pending.filter(p => !idSet.has(p.id));
+    if (this.current && idSet.has(this.current.id)) {
+      this.skipCurrent();
+      return;
+    }
+    if (this.pending.length !== before) this.notify();
+  }
+
+  skipCurrent() {
+    if (!this.current) return;
+    this.generation++;
+    this.current = null;
+    this.engine.stop();
+    this.notify();
+    this.speakNext();
+  }
+
+  skipAll() {
+    this.generation++;
+    this.pending = [];
+    this.current = null;
+    this.skippedCount = 0;
+    this.engine.stop();
+    this.notify();
+  }
+
+  // Speak right away (e.g. a voice preview), then carry on with the queue
+  speakNow(text: string, options?: SpeakOptions) {
+    if (this.current) {
+      // Put the interrupted item back at the front
+      this.pending.unshift(this.current);
+    }
+    this.generation++;
+    this.engine.stop();
+    this.current = null;
+    this.speak({
+      id: `now-${Date.now()}`,
+      text,
+      priority: 'mention',
+      options,
+      enqueuedAt: Date.now(),
+    });
+  }
+
+  getSnapshot(): TtsQueueSnapshot {
+    return {
+      current: this.current,
+      pending: [...this.pending],
+      skippedCount: this.skippedCount,
+      config: this.config,
+    };
+  }
+
+  subscribe(listener: SnapshotListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getSnapshot());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private enforceBacklog() {
+    while (this.pending.length > this.config.maxBacklog) {
+      let dropIndex = 0;
+      if (this.config.dropPolicy === 'lowest-priority') {
+        // pending is sorted by priority, so the first item of the lowest lane is the oldest of it
+        const lowest = Math.min(...this.pending.map(p => PRIORITY_RANK[p.priority]));
+        dropIndex = this.pending.findIndex(p => PRIORITY_RANK[p.priority] === lowest);
+      } else {
+        dropIndex = this.pending.reduce(
+          (oldest, p, i) => (p.enqueuedAt < this.pending[oldest].enqueuedAt ? i : oldest),
+          0
+        );
+      }
+      this.pending.splice(dropIndex, 1);
+      if (this.config.dropPolicy === 'summarize') {
+        this.skippedCount++;
+      }
+    }
+  }
+
+  private speakNext() {
+    if (this.current) return;
+
+    if (this.skippedCount > 0) {
+      const count = this.skippedCount;
+      this.skippedCount = 0;
+      this.speak({
+        id: `skipped-${Date.now()}`,
+        text: `Skipped ${count} message${count === 1 ? '' : 's'}`,
+        priority: 'normal',
+        enqueuedAt: Date.now(),
+      });
+      return;
+    }
+
+    const next = this.pending.shift();
+    if (next) {
+      this.speak(next);
+    } else {
+      this.notify();
+    }
+  }
+
+  private speak(item: TtsItem) {
+    this.current = item;
+    this.notify();
+    const generation = this.generation;
+    this.engine.speak(item.text, { ...this.defaults, ...item.options }, () => {
+      if (generation !== this.generation) return;
+      this.current = null;
+      this.speakNext();
+    });
+  }
+
+  private notify() {
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+export const ttsQueue = new TtsQueue();
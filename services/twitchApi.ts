@@ -1,135 +1,127 @@
-import { TwitchUser, TwitchChannel, TwitchStream, StreamerDisplay } from '../types/twitch';
+import { TwitchUser, TwitchChannel, TwitchStream, StreamerDisplay, TwitchBadgeSet, TokenValidation } from '../types/twitch';
+import { HelixClient } from './helixClient';
+import { helixCache, CACHE_POLICIES } from './helixCache';
 
 const CLIENT_ID = 'ts9t5mvq8lfrghozvbu7f7ypu67eho';
-const API_BASE = 'https://api.twitch.tv/helix';
 const AUTH_BASE = 'https://id.twitch.tv/oauth2';
 
-export async function validateToken(token: string): Promise<boolean> {
-  try {
-    const response = await fetch(`${AUTH_BASE}/validate`, {
-      headers: {
-        'Authorization': `OAuth ${token}`,
-      },
-    });
-    return response.ok;
-  } catch (error) {
-    console.error('Token validation error:', error);
-    return false;
-  }
-}
+export const helix = new HelixClient(CLIENT_ID);
 
-export async function getUser(token: string): Promise<TwitchUser> {
-  const response = await fetch(`${API_BASE}/users`, {
+// null when the token is invalid or revoked; throws when Twitch can't be reached,
+// so a network blip isn't mistaken for being logged out
+export async function validateToken(token: string): Promise<TokenValidation | null> {
+  const response = await fetch(`${AUTH_BASE}/validate`, {
     headers: {
-      'Authorization': `Bearer ${token}`,
-      'Client-Id': CLIENT_ID,
+      'Authorization': `OAuth ${token}`,
     },
   });
 
+  if (response.status === 401) {
+    return null;
+  }
   if (!response.ok) {
-    throw new Error('Failed to fetch user');
+    throw new Error('Failed to validate token');
   }
 
-  const data = await response.json();
-  return data.data[0];
+  return response.json();
 }
 
-export async function getFollowedChannels(token: string, userId: string): Promise<TwitchChannel[]> {
-  const channels: TwitchChannel[] = [];
-  let cursor: string | undefined;
-
-  do {
-    const url = new URL(`${API_BASE}/channels/followed`);
-    url.searchParams.set('user_id', userId);
-    url.searchParams.set('first', '100');
-    if (cursor) {
-      url.searchParams.set('after', cursor);
-    }
-
-    const response = await fetch(url.toString(), {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Client-Id': CLIENT_ID,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to fetch followed channels');
-    }
-
-    const data = await response.json();
-    channels.push(...data.data);
-    cursor = data.pagination?.cursor;
-  } while (cursor);
+export async function getUser(token: string): Promise<TwitchUser> {
+  const [user] = await helix.get<TwitchUser>(token, '/users');
+  if (!user) {
+    throw new Error('Failed to fetch user');
+  }
+  return user;
+}
 
-  return channels;
+// Follows, users and streams go through the cache; see CACHE_POLICIES for how long each is kept.
+// Aborting `signal` stops waiting, but a request other callers share keeps going.
+export async function getFollowedChannels(token: string, userId: string, signal?: AbortSignal): Promise<TwitchChannel[]> {
+  return helixCache.get(
+    `follows:${userId}`,
+    CACHE_POLICIES.follows,
+    () => helix.getAll<TwitchChannel>(token, '/channels/followed', { user_id: userId }),
+    { signal }
+  );
 }
 
-export async function getLiveStreams(token: string, userIds: string[]): Promise<TwitchStream[]> {
-  if (userIds.length === 0) return [];
+export async function getLiveStreams(token: string, userIds: string[], signal?: AbortSignal): Promise<TwitchStream[]> {
+  const streams = await helixCache.getMany(
+    userIds,
+    id => `stream:${id}`,
+    CACHE_POLICIES.stream,
+    async ids => {
+      const fetched: TwitchStream[] = [];
+      for (const chunk of chunkArray(ids, 100)) {
+        fetched.push(...await helix.get<TwitchStream>(token, '/streams', { user_id: chunk, first: 100 }));
+      }
+      return new Map(fetched.map(stream => [stream.user_id, stream]));
+    },
+    { signal }
+  );
+  return [...streams.values()].filter((stream): stream is TwitchStream => !!stream);
+}
 
-  const streams: TwitchStream[] = [];
-  const chunks = chunkArray(userIds, 100);
+export async function getUsersByIds(token: string, userIds: string[], signal?: AbortSignal): Promise<TwitchUser[]> {
+  const users = await helixCache.getMany(
+    userIds,
+    id => `user:${id}`,
+    CACHE_POLICIES.user,
+    async ids => {
+      const fetched: TwitchUser[] = [];
+      for (const chunk of chunkArray(ids, 100)) {
+        fetched.push(...await helix.get<TwitchUser>(token, '/users', { id: chunk }));
+      }
+      return new Map(fetched.map(user => [user.id, user]));
+    },
+    { signal }
+  );
+  return [...users.values()].filter((user): user is TwitchUser => !!user);
+}
 
-  for (const chunk of chunks) {
-    const url = new URL(`${API_BASE}/streams`);
-    chunk.forEach(id => url.searchParams.append('user_id', id));
+export async function getGlobalBadges(token: string): Promise<TwitchBadgeSet[]> {
+  return helix.get<TwitchBadgeSet>(token, '/chat/badges/global');
+}
 
-    const response = await fetch(url.toString(), {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Client-Id': CLIENT_ID,
-      },
-    });
+export async function getChannelBadges(token: string, broadcasterId: string): Promise<TwitchBadgeSet[]> {
+  return helix.get<TwitchBadgeSet>(token, '/chat/badges', { broadcaster_id: broadcasterId });
+}
 
-    if (!response.ok) {
-      throw new Error('Failed to fetch live streams');
-    }
+export async function getFollowedStreamers(
+  token: string,
+  userId: string,
+  signal?: AbortSignal
+): Promise<StreamerDisplay[]> {
+  const channels = await getFollowedChannels(token, userId, signal);
+  const userIds = channels.map(c => c.broadcaster_id);
 
-    const data = await response.json();
-    streams.push(...data.data);
-  }
+  const [users, streams] = await Promise.all([
+    getUsersByIds(token, userIds, signal),
+    getLiveStreams(token, userIds, signal),
+  ]);
 
-  return streams;
+  return buildStreamerList(channels, users, streams);
 }
 
-export async function getUsersByIds(token: string, userIds: string[]): Promise<TwitchUser[]> {
-  if (userIds.length === 0) return [];
+// The list as it was last fetched, without touching the network; null if it was never cached.
+// Shown on launch while getFollowedStreamers brings it up to date.
+export async function getCachedFollowedStreamers(userId: string): Promise<StreamerDisplay[] | null> {
+  await helixCache.load();
+  const channels = helixCache.peek<TwitchChannel[]>(`follows:${userId}`);
+  if (!channels) return null;
 
   const users: TwitchUser[] = [];
-  const chunks = chunkArray(userIds, 100);
-
-  for (const chunk of chunks) {
-    const url = new URL(`${API_BASE}/users`);
-    chunk.forEach(id => url.searchParams.append('id', id));
-
-    const response = await fetch(url.toString(), {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Client-Id': CLIENT_ID,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to fetch users');
-    }
-
-    const data = await response.json();
-    users.push(...data.data);
-  }
-
-  return users;
+  const streams: TwitchStream[] = [];
+  channels.forEach(channel => {
+    const user = helixCache.peek<TwitchUser | null>(`user:${channel.broadcaster_id}`);
+    const stream = helixCache.peek<TwitchStream | null>(`stream:${channel.broadcaster_id}`);
+    if (user) users.push(user);
+    if (stream) streams.push(stream);
+  });
+  return buildStreamerList(channels, users, streams);
 }
 
-export async function getFollowedStreamers(token: string, userId: string): Promise<StreamerDisplay[]> {
-  const channels = await getFollowedChannels(token, userId);
-  const userIds = channels.map(c => c.broadcaster_id);
-
-  const [users, streams] = await Promise.all([
-    getUsersByIds(token, userIds),
-    getLiveStreams(token, userIds),
-  ]);
-
+function buildStreamerList(channels: TwitchChannel[], users: TwitchUser[], streams: TwitchStream[]): StreamerDisplay[] {
   const userMap = new Map(users.map(u => [u.id, u]));
   const streamMap = new Map(streams.map(s => [s.user_id, s]));
 
@@ -147,6 +139,7 @@ export async function getFollowedStreamers(token: string, userId: string): Promi
       game_name: stream?.game_name,
       title: stream?.title,
       thumbnail_url: stream?.thumbnail_url?.replace('{width}', '320').replace('{height}', '180'),
+      started_at: stream?.started_at,
     };
   });
 
@@ -171,20 +164,6 @@ function chunkArray<T>(array: T[], size: number): T[][] {
   return chunks;
 }
 
-export function getOAuthUrl(platform: 'web' | 'native'): string {
-  // Web uses localhost, native uses 127.0.0.1 (both registered in Twitch)
-  const redirectUri = platform === 'web' ? 'http://localhost' : 'http://127.0.0.1';
-
-  const params = new URLSearchParams({
-    client_id: CLIENT_ID,
-    redirect_uri: redirectUri,
-    response_type: 'token',
-    scope: 'user:read:follows chat:read chat:edit',
-  });
-
-  return `${AUTH_BASE}/authorize?${params.toString()}`;
-}
-
 export function getClientId(): string {
   return CLIENT_ID;
 }
@@ -0,0 +1,116 @@
+import * as AuthSession from 'expo-auth-session';
+import { TwitchTokens, DeviceCodeResponse } from '../types/twitch';
+import { getClientId } from './twitchApi';
+
+const AUTH_BASE = 'https://id.twitch.tv/oauth2';
+
+export const AUTH_SCOPES = ['user:read:follows', 'chat:read', 'chat:edit'];
+
+export const twitchDiscovery: AuthSession.DiscoveryDocument = {
+  authorizationEndpoint: `${AUTH_BASE}/authorize`,
+  tokenEndpoint: `${AUTH_BASE}/token`,
+  revocationEndpoint: `${AUTH_BASE}/revoke`,
+};
+
+// twitchvoice://auth on native, <origin>/auth on web (app/auth.tsx); both must be registered on the Twitch app
+export function getRedirectUri(): string {
+  return AuthSession.makeRedirectUri({ scheme: 'twitchvoice', path: 'auth' });
+}
+
+// Twitch sends scope as an array, the OAuth spec as a space-separated string
+function toTokens(response: {
+  accessToken: string;
+  refreshToken?: string;
+  expiresIn?: number;
+  scope?: string | string[];
+}): TwitchTokens {
+  const scope = response.scope;
+  return {
+    accessToken: response.accessToken,
+    refreshToken: response.refreshToken,
+    expiresAt: response.expiresIn ? Date.now() + response.expiresIn * 1000 : undefined,
+    scopes: Array.isArray(scope) ? scope : scope?.split(' ').filter(Boolean),
+  };
+}
+
+// Second half of the authorization code + PKCE flow started by useAuthRequest
+export async function exchangeAuthCode(code: string, codeVerifier: string): Promise<TwitchTokens> {
+  const response = await AuthSession.exchangeCodeAsync(
+    {
+      clientId: getClientId(),
+      code,
+      redirectUri: getRedirectUri(),
+      extraParams: { code_verifier: codeVerifier },
+    },
+    twitchDiscovery
+  );
+  return toTokens(response);
+}
+
+export async function refreshTokens(refreshToken: string): Promise<TwitchTokens> {
+  const response = await AuthSession.refreshAsync(
+    { clientId: getClientId(), refreshToken },
+    twitchDiscovery
+  );
+  // Twitch rotates refresh tokens, but keep the old one if it didn't send a new one
+  return { ...toTokens(response), refreshToken: response.refreshToken ?? refreshToken };
+}
+
+const postForm = (url: string, params: Record<string, string>) =>
+  fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams(params).toString(),
+  });
+
+// Device code grant, for devices where a browser redirect back to the app isn't possible
+export async function startDeviceAuth(): Promise<DeviceCodeResponse> {
+  const response = await postForm(`${AUTH_BASE}/device`, {
+    client_id: getClientId(),
+    scopes: AUTH_SCOPES.join(' '),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to start device login');
+  }
+
+  return response.json();
+}
+
+// Resolves once the user has entered the code, or throws when it expires or `isCancelled` says so
+export async function pollDeviceAuth(
+  device: DeviceCodeResponse,
+  isCancelled: () => boolean = () => false
+): Promise<TwitchTokens> {
+  const expiresAt = Date.now() + device.expires_in * 1000;
+  let interval = device.interval * 1000;
+
+  while (Date.now() < expiresAt) {
+    await new Promise(resolve => setTimeout(resolve, interval));
+    if (isCancelled()) throw new Error('Device login cancelled');
+
+    const response = await postForm(`${AUTH_BASE}/token`, {
+      client_id: getClientId(),
+      scopes: AUTH_SCOPES.join(' '),
+      device_code: device.device_code,
+      grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
+    });
+    const data = await response.json();
+
+    if (response.ok) {
+      return toTokens({
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token,
+        expiresIn: data.expires_in,
+        scope: data.scope,
+      });
+    }
+    if (data.message === 'slow_down') {
+      interval += 5000;
+    } else if (data.message !== 'authorization_pending') {
+      throw new Error('Device login was denied or expired');
+    }
+  }
+
+  throw new Error('Device login expired');
+}
@@ -1,53 +1,142 @@
-import { ChatMessage } from '../types/twitch';
+import { ChatMessage, ChatEvent, IrcMessage, IrcConnectionState, RoomState } from '../types/twitch';
+import { parseIrcLine, parseBadges, parseEmotes, parseRoles } from './ircParser';
+import { OutgoingQueue } from './outgoingQueue';
+
+export interface IrcHandlers {
+  onMessage?: (message: ChatMessage) => void;
+  onEvent?: (event: ChatEvent) => void;
+  onChannelJoinChange?: (channel: string, joined: boolean) => void;
+  onStateChange?: (state: IrcConnectionState) => void;
+}
+
+const DEFAULT_ROOM_STATE: RoomState = {
+  emoteOnly: false,
+  followersOnly: -1,
+  r9k: false,
+  slow: 0,
+  subsOnly: false,
+};
+
+// Twitch allows 20 JOIN attempts per 10 seconds for regular accounts
+const JOIN_LIMIT = 20;
+const JOIN_WINDOW_MS = 10000;
 
-type MessageCallback = (message: ChatMessage) => void;
-type ConnectionCallback = (connected: boolean) => void;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30000;
+
+// Send our own PING this often and treat the socket as dead if no PONG follows
+const KEEPALIVE_INTERVAL_MS = 60000;
+const KEEPALIVE_TIMEOUT_MS = 10000;
+
+// NOTICE texts Twitch sends instead of 001 when the token is rejected
+const AUTH_FAILURE_NOTICES = ['Login authentication failed', 'Improperly formatted auth'];
 
 export class TwitchIRC {
   private ws: WebSocket | null = null;
   private token: string;
   private username: string;
-  private channel: string | null = null;
-  private onMessage: MessageCallback | null = null;
-  private onConnectionChange: ConnectionCallback | null = null;
+  private handlers: IrcHandlers = {};
+  // Channels we want to be in, whether or not the JOIN has been confirmed
+  private channels = new Set<string>();
+  private joinedChannels = new Set<string>();
+  private joinQueue: string[] = [];
+  private joinTimestamps: number[] = [];
+  private joinTimer: ReturnType<typeof setTimeout> | null = null;
+  private roomStates = new Map<string, RoomState>();
+  private roomIds = new Map<string, string>();
+  private state: IrcConnectionState = 'idle';
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private keepaliveTimer: ReturnType<typeof setInterval> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
+  private inForeground = true;
   private messageId = 0;
-  private hasJoined = false;
+  private outgoing: OutgoingQueue;
 
   constructor(token: string, username: string) {
     this.token = token;
     this.username = username.toLowerCase();
+    this.outgoing = new OutgoingQueue(
+      (channel, text) => this.sendPrivmsg(channel, text),
+      update => this.handlers.onEvent?.({ type: 'sendstatus', ...update })
+    );
   }
 
-  connect(channel: string, onMessage: MessageCallback, onConnectionChange?: ConnectionCallback) {
-    this.channel = channel.toLowerCase();
-    this.onMessage = onMessage;
-    this.onConnectionChange = onConnectionChange || null;
+  getUsername(): string {
+    return this.username;
+  }
 
-    this.ws = new WebSocket('wss://irc-ws.chat.twitch.tv:443');
+  getState(): IrcConnectionState {
+    return this.state;
+  }
+
+  private setState(state: IrcConnectionState) {
+    if (this.state === state) return;
+    console.log(`IRC state: ${this.state} -> ${state}`);
+    this.state = state;
+    this.handlers.onStateChange?.(state);
+  }
+
+  connect(handlers: IrcHandlers) {
+    this.handlers = handlers;
+    this.reconnectAttempts = 0;
+    this.openSocket();
+  }
 
-    this.ws.onopen = () => {
+  private openSocket() {
+    this.clearReconnectTimer();
+    this.closeSocket();
+    this.resetSession();
+    this.setState('connecting');
+
+    const ws = new WebSocket('wss://irc-ws.chat.twitch.tv:443');
+    this.ws = ws;
+
+    // Handlers ignore sockets we have already replaced, so a late close
+    // from an old socket can't trigger a second reconnect
+    ws.onopen = () => {
+      if (ws !== this.ws) return;
       console.log('IRC WebSocket connected');
-      this.reconnectAttempts = 0;
+      this.setState('authenticating');
       this.authenticate();
     };
 
-    this.ws.onmessage = (event) => {
+    ws.onmessage = (event) => {
+      if (ws !== this.ws) return;
       this.handleMessage(event.data);
     };
 
-    this.ws.onerror = (error) => {
+    ws.onerror = (error) => {
+      if (ws !== this.ws) return;
       console.error('IRC WebSocket error:', error);
     };
 
-    this.ws.onclose = () => {
+    ws.onclose = () => {
+      if (ws !== this.ws) return;
       console.log('IRC WebSocket closed');
-      this.onConnectionChange?.(false);
-      this.attemptReconnect();
+      this.ws = null;
+      this.resetSession();
+      if (this.state !== 'auth-failed' && this.state !== 'closed-by-user') {
+        this.scheduleReconnect();
+      }
     };
   }
 
+  private closeSocket() {
+    const ws = this.ws;
+    this.ws = null;
+    this.stopKeepalive();
+    if (!ws) return;
+    // Nothing from the old socket matters once it's been dropped
+    ws.onopen = null;
+    ws.onmessage = null;
+    ws.onerror = null;
+    ws.onclose = null;
+    if (ws.readyState !== WebSocket.CLOSED && ws.readyState !== WebSocket.CLOSING) {
+      ws.close();
+    }
+  }
+
   private authenticate() {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
 
@@ -60,138 +149,414 @@ export class TwitchIRC {
     const lines = data.split('\r\n').filter(line => line.length > 0);
 
     for (const line of lines) {
-      // Handle PING
-      if (line.startsWith('PING')) {
-        this.ws?.send('PONG :tmi.twitch.tv');
-        continue;
-      }
+      const msg = parseIrcLine(line);
+      if (!msg) continue;
+
+      switch (msg.command) {
+        case 'PING':
+          this.ws?.send(`PONG :${msg.trailing ?? 'tmi.twitch.tv'}`);
+          break;
+
+        // Successful auth
+        case '001':
+          if (this.state === 'authenticating') {
+            console.log('IRC authenticated, joining channels:', [...this.channels]);
+            this.reconnectAttempts = 0;
+            this.setState('joined');
+            this.startKeepalive();
+            this.channels.forEach(channel => this.queueJoin(channel));
+          }
+          break;
+
+        case 'PONG':
+          if (this.pongTimer) {
+            clearTimeout(this.pongTimer);
+            this.pongTimer = null;
+          }
+          break;
+
+        // Join/part confirmation for our own user
+        case 'JOIN':
+        case 'PART': {
+          const channel = msg.params[0]?.replace(/^#/, '');
+          if (!channel || msg.prefix?.nick !== this.username) break;
+          if (msg.command === 'JOIN') {
+            this.joinedChannels.add(channel);
+          } else {
+            this.joinedChannels.delete(channel);
+            this.roomStates.delete(channel);
+            this.outgoing.setChannelReady(channel, false);
+          }
+          this.handlers.onChannelJoinChange?.(channel, msg.command === 'JOIN');
+          break;
+        }
 
-      // Handle successful auth
-      if (line.includes('001') && !this.hasJoined) {
-        console.log('IRC authenticated, joining channel:', this.channel);
-        this.hasJoined = true;
-        this.joinChannel();
-        continue;
+        case 'PRIVMSG': {
+          const message = this.parsePrivmsg(msg);
+          if (message) {
+            this.handlers.onMessage?.(message);
+          }
+          break;
+        }
+
+        // Sent on join and after each of our messages is accepted
+        case 'USERSTATE': {
+          const channel = msg.params[0]?.replace(/^#/, '');
+          if (!channel) break;
+          const badges = parseBadges(msg.tags['badges']);
+          this.outgoing.setElevated(
+            channel,
+            msg.tags['mod'] === '1' ||
+              badges.some(b => b.id === 'moderator' || b.id === 'vip' || b.id === 'broadcaster')
+          );
+          this.outgoing.handleUserState(channel, msg.tags['id'] || undefined);
+          break;
+        }
+
+        case 'CLEARCHAT':
+        case 'CLEARMSG':
+        case 'USERNOTICE':
+        case 'NOTICE':
+        case 'ROOMSTATE': {
+          if (
+            msg.command === 'NOTICE' &&
+            this.state === 'authenticating' &&
+            AUTH_FAILURE_NOTICES.some(text => msg.trailing?.startsWith(text))
+          ) {
+            console.error('IRC authentication failed:', msg.trailing);
+            this.setState('auth-failed');
+            this.closeSocket();
+            this.resetSession();
+          }
+          const event = this.parseEvent(msg);
+          if (event?.type === 'notice' && event.channel &&
+            this.outgoing.handleNotice(event.channel, event.noticeType, event.text)) {
+            break;
+          }
+          if (event?.type === 'roomstate') {
+            // ROOMSTATE closes the join burst, so USERSTATE from here on answers our sends
+            this.outgoing.setSlowMode(event.channel, event.state.slow);
+            this.outgoing.setChannelReady(event.channel, this.joinedChannels.has(event.channel));
+          }
+          if (event) {
+            this.handlers.onEvent?.(event);
+          }
+          break;
+        }
+
+        // Twitch is about to restart the server; drop the socket and let onclose reconnect
+        case 'RECONNECT':
+          console.log('IRC server requested reconnect');
+          this.handlers.onEvent?.({ type: 'reconnect' });
+          this.openSocket();
+          break;
       }
+    }
+  }
+
+  private parsePrivmsg(msg: IrcMessage): ChatMessage | null {
+    const channel = msg.params[0]?.replace(/^#/, '');
+    if (!channel || msg.trailing === undefined) return null;
+
+    const { tags } = msg;
+    let text = msg.trailing;
 
-      // Handle join confirmation
-      if (line.includes('JOIN') && this.channel) {
-        this.onConnectionChange?.(true);
-        continue;
+    // /me messages arrive wrapped in CTCP ACTION
+    const actionMatch = text.match(/^\u0001ACTION (.*)\u0001$/);
+    if (actionMatch) {
+      text = actionMatch[1];
+    }
+
+    const login = msg.prefix?.nick || tags['login'];
+    const badges = parseBadges(tags['badges']);
+    const badgeInfo = parseBadges(tags['badge-info']);
+    const bits = tags['bits'] ? parseInt(tags['bits'], 10) : undefined;
+
+    return {
+      id: tags['id'] || `msg-${++this.messageId}`,
+      username: tags['display-name'] || login || 'unknown',
+      message: text,
+      color: tags['color'] || undefined,
+      timestamp: tags['tmi-sent-ts'] ? new Date(Number(tags['tmi-sent-ts'])) : new Date(),
+      channel,
+      login,
+      userId: tags['user-id'] || undefined,
+      messageId: tags['id'] || undefined,
+      badges,
+      badgeInfo,
+      roles: parseRoles(tags, badges, badgeInfo),
+      emotes: parseEmotes(tags['emotes']),
+      bits: bits && !isNaN(bits) ? bits : undefined,
+      replyParent: tags['reply-parent-msg-id']
+        ? {
+            messageId: tags['reply-parent-msg-id'],
+            userId: tags['reply-parent-user-id'] || '',
+            userLogin: tags['reply-parent-user-login'] || '',
+            displayName: tags['reply-parent-display-name'] || '',
+            body: tags['reply-parent-msg-body'] || '',
+          }
+        : undefined,
+      isFirstMessage: tags['first-msg'] === '1',
+      isAction: !!actionMatch,
+    };
+  }
+
+  private parseEvent(msg: IrcMessage): ChatEvent | null {
+    const { tags } = msg;
+    const channel = msg.params[0]?.replace(/^#/, '') || '';
+
+    switch (msg.command) {
+      case 'CLEARCHAT':
+        return {
+          type: 'clearchat',
+          channel,
+          targetLogin: msg.trailing || undefined,
+          targetUserId: tags['target-user-id'] || undefined,
+          duration: tags['ban-duration'] ? Number(tags['ban-duration']) : undefined,
+        };
+
+      case 'CLEARMSG':
+        if (!tags['target-msg-id']) return null;
+        return {
+          type: 'clearmsg',
+          channel,
+          targetMessageId: tags['target-msg-id'],
+          login: tags['login'] || undefined,
+        };
+
+      case 'USERNOTICE': {
+        const months = tags['msg-param-cumulative-months'] || tags['msg-param-months'];
+        const viewerCount = tags['msg-param-viewerCount'];
+        return {
+          type: 'usernotice',
+          channel,
+          noticeType: tags['msg-id'] || 'unknown',
+          systemMessage: tags['system-msg'] || '',
+          username: tags['display-name'] || tags['login'] || 'unknown',
+          login: tags['login'] || undefined,
+          months: months ? Number(months) : undefined,
+          viewerCount: viewerCount ? Number(viewerCount) : undefined,
+          // Resubs and announcements can carry the user's own text
+          message: msg.trailing ? this.parsePrivmsg(msg) ?? undefined : undefined,
+        };
       }
 
-      // Parse PRIVMSG
-      if (line.includes('PRIVMSG')) {
-        const message = this.parsePrivmsg(line);
-        if (message) {
-          this.onMessage?.(message);
-        }
+      case 'NOTICE':
+        return {
+          type: 'notice',
+          channel: channel && channel !== '*' ? channel : undefined,
+          noticeType: tags['msg-id'] || undefined,
+          text: msg.trailing || '',
+        };
+
+      case 'ROOMSTATE': {
+        // ROOMSTATE after a mode change only carries the tag that changed
+        const state = { ...(this.roomStates.get(channel) || DEFAULT_ROOM_STATE) };
+        if ('emote-only' in tags) state.emoteOnly = tags['emote-only'] === '1';
+        if ('followers-only' in tags) state.followersOnly = Number(tags['followers-only']);
+        if ('r9k' in tags) state.r9k = tags['r9k'] === '1';
+        if ('slow' in tags) state.slow = Number(tags['slow']);
+        if ('subs-only' in tags) state.subsOnly = tags['subs-only'] === '1';
+        this.roomStates.set(channel, state);
+        if (tags['room-id']) this.roomIds.set(channel, tags['room-id']);
+        return { type: 'roomstate', channel, roomId: tags['room-id'] || undefined, state };
       }
     }
+
+    return null;
   }
 
-  private parsePrivmsg(line: string): ChatMessage | null {
-    try {
-      // Parse tags
-      let color: string | undefined;
-      let displayName: string | undefined;
+  getRoomState(channel: string): RoomState | undefined {
+    return this.roomStates.get(channel.toLowerCase());
+  }
+
+  // Twitch user id of the channel, known once its ROOMSTATE arrives
+  getRoomId(channel: string): string | undefined {
+    return this.roomIds.get(channel.toLowerCase());
+  }
 
-      if (line.startsWith('@')) {
-        const tagsEnd = line.indexOf(' ');
-        const tagsStr = line.substring(1, tagsEnd);
-        const tags = Object.fromEntries(
-          tagsStr.split(';').map(t => t.split('='))
-        );
-        color = tags['color'] || undefined;
-        displayName = tags['display-name'] || undefined;
+  isJoined(channel: string): boolean {
+    return this.joinedChannels.has(channel.toLowerCase());
+  }
+
+  join(channel: string) {
+    const name = channel.toLowerCase();
+    if (this.channels.has(name)) return;
+    this.channels.add(name);
+    if (this.state === 'joined') {
+      this.queueJoin(name);
+    }
+  }
+
+  part(channel: string) {
+    const name = channel.toLowerCase();
+    if (!this.channels.delete(name)) return;
+    this.joinQueue = this.joinQueue.filter(c => c !== name);
+    if (this.joinedChannels.has(name) && this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(`PART #${name}`);
+    }
+  }
+
+  private queueJoin(channel: string) {
+    if (!this.joinQueue.includes(channel)) {
+      this.joinQueue.push(channel);
+    }
+    this.flushJoinQueue();
+  }
+
+  private flushJoinQueue() {
+    if (this.joinTimer) return;
+
+    while (this.joinQueue.length > 0) {
+      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+      const now = Date.now();
+      this.joinTimestamps = this.joinTimestamps.filter(t => now - t < JOIN_WINDOW_MS);
+      if (this.joinTimestamps.length >= JOIN_LIMIT) {
+        const wait = JOIN_WINDOW_MS - (now - this.joinTimestamps[0]);
+        this.joinTimer = setTimeout(() => {
+          this.joinTimer = null;
+          this.flushJoinQueue();
+        }, wait);
+        return;
       }
 
-      // Parse message content
-      const privmsgIndex = line.indexOf('PRIVMSG');
-      if (privmsgIndex === -1) return null;
-
-      const afterPrivmsg = line.substring(privmsgIndex);
-      const colonIndex = afterPrivmsg.indexOf(' :');
-      if (colonIndex === -1) return null;
-
-      const messageText = afterPrivmsg.substring(colonIndex + 2);
-
-      // Parse username from prefix
-      const prefixMatch = line.match(/:(\w+)!/);
-      const username = displayName || prefixMatch?.[1] || 'unknown';
-
-      return {
-        id: `msg-${++this.messageId}`,
-        username,
-        message: messageText,
-        color,
-        timestamp: new Date(),
-      };
-    } catch (error) {
-      console.error('Error parsing PRIVMSG:', error);
-      return null;
+      const channel = this.joinQueue.shift()!;
+      this.joinTimestamps.push(now);
+      this.ws.send(`JOIN #${channel}`);
+    }
+  }
+
+  // Forget per-socket state; the wanted channel list is kept for rejoining
+  private resetSession() {
+    this.stopKeepalive();
+    this.outgoing.handleDisconnect();
+    this.joinQueue = [];
+    if (this.joinTimer) {
+      clearTimeout(this.joinTimer);
+      this.joinTimer = null;
     }
+    this.joinedChannels.forEach(channel => this.handlers.onChannelJoinChange?.(channel, false));
+    this.joinedChannels.clear();
+    this.roomStates.clear();
   }
 
-  private joinChannel() {
-    if (!this.ws || !this.channel) return;
-    this.ws.send(`JOIN #${this.channel}`);
+  private startKeepalive() {
+    this.stopKeepalive();
+    this.keepaliveTimer = setInterval(() => {
+      if (!this.ws || this.ws.readyState !== WebSocket.OPEN || this.pongTimer) return;
+      this.ws.send('PING :tmi.twitch.tv');
+      this.pongTimer = setTimeout(() => {
+        this.pongTimer = null;
+        console.log('IRC keepalive timed out, reconnecting');
+        // A half-open socket can take minutes to report onclose, so don't wait for it
+        this.closeSocket();
+        this.resetSession();
+        this.scheduleReconnect();
+      }, KEEPALIVE_TIMEOUT_MS);
+    }, KEEPALIVE_INTERVAL_MS);
   }
 
-  private attemptReconnect() {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      console.log('Max reconnection attempts reached');
-      return;
+  private stopKeepalive() {
+    if (this.keepaliveTimer) {
+      clearInterval(this.keepaliveTimer);
+      this.keepaliveTimer = null;
     }
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+  }
+
+  private scheduleReconnect() {
+    this.setState('backoff');
+    this.clearReconnectTimer();
+
+    // Stay in backoff until the app is visible again; setForeground resumes
+    if (!this.inForeground) return;
 
     this.reconnectAttempts++;
-    const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 30000);
+    // Exponential backoff with jitter so many clients don't reconnect in lockstep
+    const ceiling = Math.min(BACKOFF_BASE_MS * Math.pow(2, this.reconnectAttempts), BACKOFF_MAX_MS);
+    const delay = Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
 
     console.log(`Attempting reconnect in ${delay}ms (attempt ${this.reconnectAttempts})`);
 
-    setTimeout(() => {
-      if (this.channel && this.onMessage) {
-        this.connect(this.channel, this.onMessage, this.onConnectionChange || undefined);
-      }
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket();
     }, delay);
   }
 
-  sendMessage(message: string) {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN || !this.channel) {
-      console.error('Cannot send message: not connected');
-      return false;
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  // Called when the app moves between foreground and background
+  setForeground(inForeground: boolean) {
+    this.inForeground = inForeground;
+    if (inForeground && this.state === 'backoff') {
+      this.reconnectAttempts = 0;
+      this.openSocket();
+    } else if (!inForeground) {
+      this.clearReconnectTimer();
+    }
+  }
+
+  // Retry right away, e.g. from a "reconnect" button after auth failed
+  reconnect() {
+    this.reconnectAttempts = 0;
+    this.openSocket();
+  }
+
+  // Queue a message and echo it locally as pending; returns the echo's id,
+  // or null when it was dropped as an accidental repeat
+  sendMessage(channel: string, message: string): string | null {
+    const name = channel.toLowerCase();
+    if (!this.channels.has(name)) {
+      console.error('Cannot send message: not in channel', name);
+      return null;
     }
 
-    this.ws.send(`PRIVMSG #${this.channel} :${message}`);
+    const localId = `msg-${++this.messageId}`;
+    if (!this.outgoing.enqueue(name, message, localId)) {
+      console.log('Dropped duplicate outgoing message');
+      return null;
+    }
 
-    // Add our own message to the chat
-    this.onMessage?.({
-      id: `msg-${++this.messageId}`,
+    // Add our own message to the chat; Twitch doesn't echo it back
+    this.handlers.onMessage?.({
+      id: localId,
       username: this.username,
       message,
       color: '#9147ff',
       timestamp: new Date(),
+      channel: name,
+      login: this.username,
+      sendStatus: 'pending',
     });
 
-    return true;
+    return localId;
   }
 
-  disconnect() {
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
+  private sendPrivmsg(channel: string, text: string): boolean {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN || !this.joinedChannels.has(channel)) {
+      return false;
     }
-    this.channel = null;
-    this.onMessage = null;
-    this.onConnectionChange = null;
-    this.hasJoined = false;
+    this.ws.send(`PRIVMSG #${channel} :${text}`);
+    return true;
   }
 
-  changeChannel(newChannel: string) {
-    if (this.channel) {
-      this.ws?.send(`PART #${this.channel}`);
-    }
-    this.channel = newChannel.toLowerCase();
-    this.joinChannel();
+  disconnect() {
+    this.setState('closed-by-user');
+    this.outgoing.clear();
+    this.clearReconnectTimer();
+    this.closeSocket();
+    this.resetSession();
+    this.channels.clear();
+    this.handlers = {};
   }
 }
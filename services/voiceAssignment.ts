@@ -0,0 +1,64 @@
+import { TtsVoice, SpeakOptions } from './speechEngine';
+
+// Chatter login -> voice id, set by hand from the voice settings modal
+export type VoicePins = Record<string, string>;
+
+export interface VoiceAssignmentOptions {
+  // Only hand out voices whose language starts with this (e.g. "en"), if any match
+  language?: string;
+  baseRate?: number;
+  basePitch?: number;
+}
+
+// How far a chatter's pitch and rate may drift from the base values
+const PITCH_SPREAD = 0.15;
+const RATE_SPREAD = 0.1;
+
+// FNV-1a; stable across sessions and platforms, unlike anything random
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Map a hash to [-1, 1] using a different slice of its bits per salt
+function spread(hash: number, salt: number): number {
+  const mixed = hashString(`${hash}:${salt}`);
+  return (mixed % 2001) / 1000 - 1;
+}
+
+// The same chatter always gets the same voice, as long as the voice list doesn't change.
+// Seed with the user id when there is one, since logins can be renamed.
+export function assignVoice(
+  seed: string,
+  login: string,
+  voices: TtsVoice[],
+  pins: VoicePins,
+  options: VoiceAssignmentOptions = {}
+): SpeakOptions {
+  const { language, baseRate = 1, basePitch = 1 } = options;
+  const hash = hashString(seed);
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  const speak: SpeakOptions = {
+    rate: round(baseRate * (1 + spread(hash, 1) * RATE_SPREAD)),
+    pitch: round(basePitch * (1 + spread(hash, 2) * PITCH_SPREAD)),
+  };
+
+  const pinned = pins[login.toLowerCase()];
+  if (pinned && voices.some(v => v.id === pinned)) {
+    return { ...speak, voiceId: pinned };
+  }
+
+  const sameLanguage = language
+    ? voices.filter(v => v.language.toLowerCase().startsWith(language.toLowerCase()))
+    : [];
+  const pool = sameLanguage.length > 0 ? sameLanguage : voices;
+  if (pool.length > 0) {
+    speak.voiceId = pool[hash % pool.length].id;
+  }
+  return speak;
+}
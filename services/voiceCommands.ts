@@ -0,0 +1,136 @@
+// Push-to-talk treats everything heard after pressing the mic as a command; wake phrase
+// listens all the time but only acts on what follows the phrase
+export type VoiceCommandMode = 'push-to-talk' | 'wake-phrase';
+
+export interface VoiceCommandSettings {
+  mode: VoiceCommandMode;
+  wakePhrase: string;
+  // Recognition language, e.g. "en-US"; the grammar itself is English
+  language: string;
+  // Say what was done, e.g. "Reading faster"
+  confirmations: boolean;
+}
+
+export const DEFAULT_VOICE_COMMANDS: VoiceCommandSettings = {
+  mode: 'push-to-talk',
+  wakePhrase: 'hey twitch',
+  language: 'en-US',
+  confirmations: true,
+};
+
+// Patterns are plain words plus:
+//   (a|b c)  one of the alternatives
+//   [a|b]    optional, with the same alternatives syntax
+//   {name}   a slot that captures one or more words
+// Matching ignores case, surrounding punctuation and apostrophes ("whats" matches "what's").
+export interface VoiceCommandRule {
+  intent: string;
+  patterns: string[];
+}
+
+export interface VoiceCommand {
+  intent: string;
+  slots: Record<string, string>;
+  transcript: string;
+}
+
+// Returns what to say back, if anything
+export type VoiceCommandHandler = (command: VoiceCommand) => string | void | Promise<string | void>;
+
+// Earlier rules win, so the specific ones go first. "send" is the only intent that writes to chat.
+export const DEFAULT_GRAMMAR: VoiceCommandRule[] = [
+  { intent: 'send', patterns: ['(send|say|chat) {text}'] },
+  // Before switch, which would otherwise take "open chat" as a channel called "chat"
+  { intent: 'show-chat', patterns: ['(show|open) [the] chat'] },
+  { intent: 'hide-chat', patterns: ['(hide|close) [the] chat'] },
+  { intent: 'switch', patterns: ['(switch|go|change|jump) to {streamer}', '(watch|open) {streamer}'] },
+  { intent: 'mute-tts', patterns: ['(mute|stop|pause) (tts|reading|voice|chat reading)', 'stop reading [chat]', 'be quiet'] },
+  { intent: 'unmute-tts', patterns: ['(unmute|start|resume) (tts|reading|voice|chat reading)', '(start|resume) reading [chat]', 'read chat'] },
+  { intent: 'faster', patterns: ['[read|talk|speak] faster', 'speed up'] },
+  { intent: 'slower', patterns: ['[read|talk|speak] slower', 'slow down'] },
+  { intent: 'skip-all', patterns: ['skip all', 'skip everything', 'clear [the] queue'] },
+  { intent: 'skip', patterns: ['skip [it|this|that|message]', 'next [message]'] },
+  { intent: 'back', patterns: ['[go] back', 'go home', 'exit'] },
+  { intent: 'title', patterns: ['(what\'s|what is) the title', '(what\'s|what is) (he|she|they|it) (playing|streaming)', 'read [the] title'] },
+  { intent: 'cancel', patterns: ['cancel', 'never mind', 'nevermind'] },
+];
+
+const SEPARATOR = '[\\s.,!?;:]+';
+
+interface CompiledPattern {
+  intent: string;
+  regex: RegExp;
+  slots: string[];
+}
+
+const words = (text: string) =>
+  text.trim().split(/\s+/).map(word => word.replace(/'/g, "'?")).join(SEPARATOR);
+
+const alternatives = (text: string) => `(?:${text.split('|').map(words).join('|')})`;
+
+function compilePattern(intent: string, pattern: string): CompiledPattern {
+  const slots: string[] = [];
+  const tokens = pattern.match(/\[[^\]]+\]|\([^)]+\)|\{\w+\}|\S+/g) ?? [];
+  const source = tokens.map((token, i) => {
+    if (token.startsWith('[')) return `(?:${alternatives(token.slice(1, -1))}${SEPARATOR})?`;
+    if (token.startsWith('(')) return `${alternatives(token.slice(1, -1))}${SEPARATOR}`;
+    if (token.startsWith('{')) {
+      slots.push(token.slice(1, -1));
+      // A slot at the end keeps its punctuation, so "send gg!" sends "gg!"
+      return i === tokens.length - 1 ? '(.+?)\\s*' : `(.+?)${SEPARATOR}`;
+    }
+    return `${words(token)}${SEPARATOR}`;
+  }).join('');
+  return { intent, regex: new RegExp(`^\\s*${source}$`, 'i'), slots };
+}
+
+const compiledGrammars = new WeakMap<VoiceCommandRule[], CompiledPattern[]>();
+
+function compileGrammar(grammar: VoiceCommandRule[]): CompiledPattern[] {
+  let compiled = compiledGrammars.get(grammar);
+  if (!compiled) {
+    compiled = grammar.flatMap(rule => rule.patterns.map(pattern => compilePattern(rule.intent, pattern)));
+    compiledGrammars.set(grammar, compiled);
+  }
+  return compiled;
+}
+
+// Null when the transcript isn't a command; callers must not fall back to sending it to chat
+export function parseVoiceCommand(transcript: string, grammar: VoiceCommandRule[] = DEFAULT_GRAMMAR): VoiceCommand | null {
+  // The trailing space lets every token end on a separator
+  const input = `${transcript} `;
+  for (const { intent, regex, slots } of compileGrammar(grammar)) {
+    const match = input.match(regex);
+    if (match) {
+      return {
+        intent,
+        slots: Object.fromEntries(slots.map((name, i) => [name, match[i + 1].trim()])),
+        transcript,
+      };
+    }
+  }
+  return null;
+}
+
+// "Hey Twitch, skip" -> "skip", "hey twitch" -> "", anything else -> null
+export function stripWakePhrase(transcript: string, wakePhrase: string): string | null {
+  if (!wakePhrase.trim()) return transcript.trim();
+  const match = `${transcript} `.match(new RegExp(`^\\s*${words(wakePhrase.replace(/[^\w\s']/g, ''))}${SEPARATOR}(.*)$`, 'i'));
+  return match ? match[1].trim() : null;
+}
+
+// Runs the handler for the command's intent and returns what to say back
+export async function dispatchVoiceCommand(
+  command: VoiceCommand | null,
+  handlers: Partial<Record<string, VoiceCommandHandler>>
+): Promise<string> {
+  if (!command) return 'Sorry, I didn\'t catch a command';
+  const handler = handlers[command.intent];
+  if (!handler) return 'That doesn\'t work here';
+  try {
+    return (await handler(command)) || '';
+  } catch (error) {
+    console.error('Voice command failed:', error);
+    return 'Sorry, that didn\'t work';
+  }
+}
@@ -0,0 +1,164 @@
+import { StreamerDisplay } from '../types/twitch';
+
+// Below this the best guess is treated as no match at all
+const MATCH_THRESHOLD = 0.72;
+// A runner-up this close to the best guess makes us ask instead of picking
+const AMBIGUITY_MARGIN = 0.06;
+
+export type VoiceMatchResult =
+  | { type: 'match'; streamer: StreamerDisplay; score: number }
+  | { type: 'ambiguous'; options: StreamerDisplay[] }
+  | { type: 'none' };
+
+export interface ScoredStreamer {
+  streamer: StreamerDisplay;
+  score: number;
+}
+
+const SPOKEN_DIGITS: Record<string, string> = {
+  zero: '0', oh: '0', one: '1', won: '1', two: '2', to: '2', too: '2', three: '3',
+  four: '4', for: '4', five: '5', six: '6', seven: '7', eight: '8', ate: '8', nine: '9',
+};
+
+const SPOKEN_LETTERS: Record<string, string> = {
+  a: 'a', ay: 'a', bee: 'b', be: 'b', see: 'c', sea: 'c', cee: 'c', dee: 'd', e: 'e',
+  ef: 'f', eff: 'f', gee: 'g', aitch: 'h', eye: 'i', i: 'i', jay: 'j', kay: 'k', el: 'l',
+  em: 'm', en: 'n', o: 'o', pee: 'p', cue: 'q', queue: 'q', are: 'r', ar: 'r', ess: 's',
+  tee: 't', tea: 't', you: 'u', u: 'u', vee: 'v', ex: 'x', why: 'y', zee: 'z', zed: 'z',
+};
+
+const DIGIT_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+
+// "Summit1G" -> "summit1g", "Cohh Carnage" -> "cohhcarnage"
+export function compact(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Recognizers hear names as words, so "sum mit one g" and "x q c" are also read as
+// "summit1g" and "xqc". Every reading is kept since "for" may just as well be part of "forsen".
+export function spokenVariants(transcript: string): string[] {
+  const words = transcript
+    .toLowerCase()
+    .replace(/double[\s-]?(u|you)\b/g, 'w')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+  const read = (digits: boolean, letters: boolean) =>
+    words
+      .map(word => (digits && SPOKEN_DIGITS[word]) || (letters && SPOKEN_LETTERS[word]) || word)
+      .join('');
+  return [...new Set([read(false, false), read(true, false), read(false, true), read(true, true)])]
+    .filter(Boolean);
+}
+
+// A rough sound-alike key: digits become words, letters that sound the same are folded
+// together and vowels after the first letter are dropped
+export function phoneticKey(text: string): string {
+  const spelled = compact(text).replace(/\d/g, d => DIGIT_WORDS[Number(d)]);
+  if (!spelled) return '';
+  const folded = spelled
+    .replace(/ph/g, 'f')
+    .replace(/ck/g, 'k')
+    .replace(/c(?=[eiy])/g, 's')
+    .replace(/[cq]/g, 'k')
+    .replace(/x/g, 'ks')
+    .replace(/z/g, 's')
+    .replace(/dg/g, 'j')
+    .replace(/gh/g, 'g')
+    .replace(/^kn/, 'n')
+    .replace(/^wr/, 'r');
+  return (folded[0] + folded.slice(1).replace(/[aeiouyhw]/g, '')).replace(/(.)\1+/g, '$1');
+}
+
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 for equal strings, 0 for nothing in common
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length);
+}
+
+// How well one reading of the transcript fits one name, from 0 to 1
+function scoreName(spoken: string, name: string): number {
+  if (!spoken || !name) return 0;
+  if (spoken === name) return 1;
+  const spokenKey = phoneticKey(spoken);
+  const nameKey = phoneticKey(name);
+  let score = Math.max(similarity(spoken, name), similarity(spokenKey, nameKey) * 0.95);
+  if (spokenKey === nameKey) score = Math.max(score, 0.92);
+  // "summit" for "summit1g"; short prefixes match too much to count
+  if (spoken.length >= 4 && name.startsWith(spoken)) {
+    score = Math.max(score, 0.75 + 0.15 * (spoken.length / name.length));
+  }
+  return score;
+}
+
+// Best score over every transcript alternative, reading and name (login, display name
+// and the user's nicknames for the channel)
+export function scoreStreamer(
+  transcripts: string[],
+  streamer: StreamerDisplay,
+  aliases: string[] = []
+): number {
+  const names = [...new Set([streamer.login, streamer.display_name, ...aliases].map(compact))];
+  let best = 0;
+  for (const transcript of transcripts) {
+    for (const spoken of spokenVariants(transcript)) {
+      for (const name of names) {
+        best = Math.max(best, scoreName(spoken, name));
+        if (best === 1) return best;
+      }
+    }
+  }
+  return best;
+}
+
+export function rankStreamers(
+  transcripts: string | string[],
+  streamers: StreamerDisplay[],
+  aliases: Record<string, string[]> = {}
+): ScoredStreamer[] {
+  const alternatives = Array.isArray(transcripts) ? transcripts : [transcripts];
+  return streamers
+    .map(streamer => ({
+      streamer,
+      score: scoreStreamer(alternatives, streamer, aliases[streamer.login.toLowerCase()]),
+    }))
+    // Live channels win ties, since those are the ones worth switching to
+    .sort((a, b) => b.score - a.score || Number(b.streamer.is_live) - Number(a.streamer.is_live));
+}
+
+// Picks the streamer a transcript names, or the two it could be when it's too close to call
+export function matchStreamer(
+  transcripts: string | string[],
+  streamers: StreamerDisplay[],
+  aliases: Record<string, string[]> = {}
+): VoiceMatchResult {
+  const [best, runnerUp] = rankStreamers(transcripts, streamers, aliases);
+  if (!best || best.score < MATCH_THRESHOLD) return { type: 'none' };
+  if (runnerUp && runnerUp.score >= MATCH_THRESHOLD && best.score - runnerUp.score < AMBIGUITY_MARGIN) {
+    return { type: 'ambiguous', options: [best.streamer, runnerUp.streamer] };
+  }
+  return { type: 'match', streamer: best.streamer, score: best.score };
+}
+
+// "Did you mean xQc or xQcOW?"
+export function describeVoiceChoice(options: StreamerDisplay[]): string {
+  const names = options.map(s => s.display_name);
+  const list = names.length > 1 ? `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}` : names[0];
+  return `Did you mean ${list}?`;
+}
@@ -0,0 +1,29 @@
+import { storage } from './storage';
+import { WatchHistory } from './streamerSort';
+
+const HISTORY_KEY = '@watch_history';
+const MAX_ENTRIES = 200;
+
+let cached: WatchHistory | null = null;
+
+export async function getWatchHistory(): Promise<WatchHistory> {
+  if (cached) return cached;
+  try {
+    const stored = await storage.getItem(HISTORY_KEY);
+    cached = stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.log('Ignoring unreadable watch history:', error);
+    cached = {};
+  }
+  return cached!;
+}
+
+// Called when a stream is opened; only the most recent channels are kept
+export async function recordWatch(channel: string) {
+  const history = { ...(await getWatchHistory()), [channel.toLowerCase()]: Date.now() };
+  const kept = Object.entries(history)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, MAX_ENTRIES);
+  cached = Object.fromEntries(kept);
+  await storage.setItem(HISTORY_KEY, JSON.stringify(cached));
+}
@@ -3,6 +3,8 @@ export interface TwitchUser {
   login: string;
   display_name: string;
   profile_image_url: string;
+  // ISO timestamp; Helix always sends it, older cached users may not have it
+  created_at?: string;
 }
 
 export interface TwitchChannel {
@@ -35,18 +37,248 @@ export interface StreamerDisplay {
   game_name?: string;
   title?: string;
   thumbnail_url?: string;
+  started_at?: string;
 }
 
+// A followed channel going live or offline, or changing game or title while live
+export interface LiveChange {
+  type: 'live' | 'offline' | 'game' | 'title';
+  userId: string;
+  login: string;
+  displayName: string;
+  // null once the channel went offline
+  stream: TwitchStream | null;
+  previous: TwitchStream | null;
+}
+
+export interface TwitchBadgeVersion {
+  id: string;
+  image_url_1x: string;
+  image_url_2x: string;
+  image_url_4x: string;
+  title: string;
+}
+
+export interface TwitchBadgeSet {
+  set_id: string;
+  versions: TwitchBadgeVersion[];
+}
+
+// Envelope every Helix endpoint answers with
+export interface HelixResponse<T> {
+  data: T[];
+  pagination?: {
+    cursor?: string;
+  };
+  total?: number;
+}
+
+export interface IrcPrefix {
+  nick?: string;
+  user?: string;
+  host: string;
+}
+
+export interface IrcMessage {
+  raw: string;
+  tags: Record<string, string>;
+  prefix: IrcPrefix | null;
+  command: string;
+  params: string[];
+  trailing?: string;
+}
+
+export interface ChatBadge {
+  id: string;
+  version: string;
+}
+
+export interface ChatEmoteRange {
+  id: string;
+  start: number;
+  end: number;
+}
+
+export interface ChatRoles {
+  broadcaster: boolean;
+  moderator: boolean;
+  vip: boolean;
+  subscriber: boolean;
+  // Total months subscribed, from badge-info
+  subscriberMonths?: number;
+}
+
+export interface ChatReplyParent {
+  messageId: string;
+  userId: string;
+  userLogin: string;
+  displayName: string;
+  body: string;
+}
+
+export type EmoteProviderName = 'twitch' | 'bttv' | 'ffz' | '7tv';
+
+export interface Emote {
+  id: string;
+  name: string;
+  url: string;
+  provider: EmoteProviderName;
+  width?: number;
+  height?: number;
+  // Drawn on top of the previous emote instead of after it
+  zeroWidth?: boolean;
+}
+
+export type MessageFragment =
+  | { type: 'text'; text: string }
+  | { type: 'emote'; text: string; emote: Emote };
+
+export type OutgoingStatus = 'pending' | 'sent' | 'failed';
+
 export interface ChatMessage {
   id: string;
   username: string;
   message: string;
   color?: string;
   timestamp: Date;
+  channel?: string;
+  login?: string;
+  userId?: string;
+  messageId?: string;
+  badges?: ChatBadge[];
+  badgeInfo?: ChatBadge[];
+  roles?: ChatRoles;
+  emotes?: ChatEmoteRange[];
+  bits?: number;
+  replyParent?: ChatReplyParent;
+  isFirstMessage?: boolean;
+  isAction?: boolean;
+  // Only set on messages we sent ourselves
+  sendStatus?: OutgoingStatus;
+  sendError?: string;
+}
+
+export interface RoomState {
+  emoteOnly: boolean;
+  // Minutes a user must follow before chatting, -1 when disabled
+  followersOnly: number;
+  r9k: boolean;
+  // Seconds between messages, 0 when disabled
+  slow: number;
+  subsOnly: boolean;
+}
+
+export type IrcConnectionState =
+  | 'idle'
+  | 'connecting'
+  | 'authenticating'
+  | 'joined'
+  | 'backoff'
+  | 'closed-by-user'
+  | 'auth-failed';
+
+export type ChatEvent =
+  | {
+      type: 'clearchat';
+      channel: string;
+      // Missing target means the whole chat was cleared
+      targetLogin?: string;
+      targetUserId?: string;
+      // Missing duration on a targeted clear means a permanent ban
+      duration?: number;
+    }
+  | {
+      type: 'clearmsg';
+      channel: string;
+      targetMessageId: string;
+      login?: string;
+    }
+  | {
+      type: 'usernotice';
+      channel: string;
+      // sub, resub, subgift, submysterygift, raid, announcement, ...
+      noticeType: string;
+      systemMessage: string;
+      username: string;
+      login?: string;
+      months?: number;
+      viewerCount?: number;
+      message?: ChatMessage;
+    }
+  | {
+      type: 'notice';
+      channel?: string;
+      noticeType?: string;
+      text: string;
+    }
+  | {
+      type: 'roomstate';
+      channel: string;
+      roomId?: string;
+      state: RoomState;
+    }
+  | {
+      type: 'sendstatus';
+      channel: string;
+      // id of the local echo message
+      localId: string;
+      status: OutgoingStatus;
+      reason?: string;
+      messageId?: string;
+    }
+  | {
+      type: 'reconnect';
+    };
+
+export interface TwitchTokens {
+  accessToken: string;
+  // Only the authorization code and device code flows hand one out
+  refreshToken?: string;
+  // Epoch milliseconds
+  expiresAt?: number;
+  scopes?: string[];
+}
+
+export interface DeviceCodeResponse {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  // Seconds
+  expires_in: number;
+  interval: number;
+}
+
+// Response of https://id.twitch.tv/oauth2/validate
+export interface TokenValidation {
+  client_id: string;
+  login: string;
+  user_id: string;
+  scopes: string[];
+  // Seconds; 0 for tokens that don't expire
+  expires_in: number;
+}
+
+// Something about the session the user should act on
+export type AuthNotice =
+  | { type: 'expiring'; expiresAt: number }
+  | { type: 'missing-scopes'; scopes: string[] }
+  // login is the account Twitch ended; omitted once no account is left
+  | { type: 'ended'; login?: string };
+
+export interface TwitchAccount {
+  user: TwitchUser;
+  tokens: TwitchTokens;
 }
 
 export interface AuthState {
   accessToken: string | null;
   user: TwitchUser | null;
   isLoading: boolean;
+  scopes: string[];
+  // Epoch milliseconds, null when unknown or the token doesn't expire
+  expiresAt: number | null;
+  notice: AuthNotice | null;
+  accounts: TwitchUser[];
+  // Account chat messages are sent as, when it isn't the one reading chat
+  sendAccount: { accessToken: string; user: TwitchUser } | null;
 }